@@ -1,31 +1,97 @@
 import {
 	IDataObject,
+	GenericValue,
+	IBinaryKeyData,
 	IExecuteFunctions,
 	INodeExecutionData,
 	INodeParameterResourceLocator,
 	INodeType,
 	INodeTypeDescription,
 	IPairedItemData,
+	NodeConnectionTypes,
 	NodeOperationError,
 } from 'n8n-workflow';
 
 import {
+	Cas,
+	CasMismatchError,
 	Cluster,
 	Collection,
+	CouchbaseError,
+	CouchbaseQueue,
+	CounterResult,
+	DocumentExistsError,
+	DocumentNotFoundError,
+	DurabilityLevel,
+	ExistsResult,
+	GetReplicaResult,
 	GetResult,
 	ISearchIndex,
+	KeyValueErrorContext,
+	MatchOperator,
+	LookupInResult,
+	LookupInSpec,
+	MutateInResult,
+	MutateInSpec,
 	MutationResult,
-	QueryResult,
+	QueryMetaData,
+	QueryOptions,
+	QueryProfileMode,
+	QueryScanConsistency,
+	RawBinaryTranscoder,
+	RawJsonTranscoder,
+	RawStringTranscoder,
+	Scope,
+	ScopeSearchIndexManager,
+	HighlightStyle,
+	SearchFacet,
+	SearchIndexManager,
 	SearchQuery,
 	SearchQueryOptions,
+	SearchRequest,
+	SearchResult,
+	SearchSort,
+	TransactionCommitAmbiguousError,
+	TransactionExpiredError,
+	TransactionFailedError,
+	TransactionGetResult,
+	VectorQuery,
+	VectorSearch,
+	Transcoder,
 } from 'couchbase';
 
+import type { Embeddings } from '@langchain/core/embeddings';
 import * as uuid from 'uuid';
 
 import {
+	BINARY_ENCODINGS,
+	BINARY_METADATA_STORAGE,
+	COMPOUND_SEARCH_QUERY_TYPES,
+	COUNTER_OPS,
+	DATA_STRUCTURE_OPS,
+	DOCUMENT_FORMATS,
+	DOCUMENT_ID_STRATEGIES,
 	DOCUMENT_OPS,
+	EXPIRY_TYPES,
+	IF_DOCUMENT_EXISTS,
+	KEY_VALUE_OPS,
+	LOOKUP_IN_SPECS,
+	MUTATE_IN_SPECS,
 	nodeProperties as couchbaseProperties,
+	QUERY_PAGINATION_MODES,
+	QUERY_PARAMETER_TYPES,
+	REPLICA_READ_MODES,
+	SEARCH_FACET_TYPES,
+	SEARCH_INDEX_OPS,
 	SEARCH_OPS,
+	SEARCH_QUERY_OCCURRENCES,
+	SEARCH_QUERY_TYPES,
+	SEARCH_SORT_TYPES,
+	SEARCH_TYPES,
+	SUB_DOCUMENT_OPS,
+	TRANSACTION_OPS,
+	TRANSACTION_STEP_TYPES,
+	VECTOR_SOURCES,
 } from './CouchbaseProperties';
 import {
 	populateCouchbaseBucketRL,
@@ -35,85 +101,2615 @@ import {
 } from '@utils/couchbase/populateCouchbaseRLs';
 import { connectToCouchbase } from '@utils/couchbase/connectToCouchbase';
 import { validateBucketScopeCollection } from '@utils/couchbase/validateBucketScopeCollection';
+import { generateUlid } from '@utils/couchbase/documentIds';
+import {
+	DURABILITY_LEVELS,
+	DurabilityOptions,
+	getDurabilityOptions,
+	makeDurabilityErrorDescription,
+} from '@utils/couchbase/durability';
+
+// Extended attribute and companion document key suffix holding the file metadata of binary documents
+const BINARY_METADATA_XATTR = 'n8nBinary';
+const BINARY_METADATA_DOCUMENT_SUFFIX = '::binaryMetadata';
+
+// Operations that run once for all input items up to node version 3, and once per item from version 4
+const RUN_ONCE_BEFORE_V4_OPS: string[] = [
+	DOCUMENT_OPS.QUERY,
+	SEARCH_OPS.RETRIEVE,
+	SEARCH_OPS.CREATE_INDEX,
+];
+
+// The server rejects sub-document requests with more specs than this
+const MAX_MUTATE_IN_SPECS = 16;
+
+// Parameters of a full-text search query that does not combine other queries
+const SIMPLE_SEARCH_QUERY_PARAMETERS = [
+	'searchQuery',
+	'searchBooleanValue',
+	'searchRangeMin',
+	'searchRangeMax',
+	'searchRangeInclusiveMin',
+	'searchRangeInclusiveMax',
+	'searchDateTimeParser',
+	'searchField',
+	'searchAnalyzer',
+	'searchMatchOperator',
+	'searchFuzziness',
+	'searchPrefixLength',
+	'searchBoost',
+];
+
+// Number of seconds in each expiry duration unit
+const EXPIRY_UNIT_SECONDS: { [unit: string]: number } = {
+	seconds: 1,
+	minutes: 60,
+	hours: 60 * 60,
+	days: 24 * 60 * 60,
+};
+
+/**
+ * Processes search results to remove empty objects and undefined values, then formats them into an array of IDataObject.
+ * Facets and, if requested, the metadata of the search are added as a final item.
+ * @param searchResult
+ * @param includeMetadata
+ */
+function processSearchResults(
+	searchResult: SearchResult,
+	includeMetadata: boolean = false,
+): IDataObject[] {
+	const processedData = searchResult.rows.map((row) =>
+		Object.fromEntries(
+			Object.entries(row).filter(
+				([_, v]) => v !== undefined && !(v && typeof v === 'object' && Object.keys(v).length === 0),
+			),
+		),
+	) as IDataObject[];
+
+	const results = processedData.length > 0 ? processedData : [{ message: 'No results found' }];
+
+	// Facets and metadata describe the whole result, so they are output as a separate item after the rows
+	const { facets, ...metadata } = searchResult.meta as { facets?: IDataObject };
+	const summary: IDataObject = {};
+	if (facets && Object.keys(facets).length > 0) {
+		summary.facets = facets;
+	}
+	if (includeMetadata) {
+		summary.searchMetadata = metadata as IDataObject;
+	}
+
+	return Object.keys(summary).length > 0 ? [...results, summary] : results;
+}
+
+function transformRawJsonQueryToValidSearchOptions(rawJsonQuery: any): SearchQueryOptions {
+	const { raw, ...topLevelFields } = rawJsonQuery;
+
+	// If raw field is already present, return as is
+	if (raw) {
+		return rawJsonQuery as SearchQueryOptions;
+	}
+
+	// Create properly formatted SearchQueryOptions
+	return {
+		// Place top level fields inside the raw field
+		raw: { ...topLevelFields },
+	} as SearchQueryOptions;
+}
+
+/**
+ * Returns the selected scope if Use Scoped Index is enabled, or undefined to use the global search indexes
+ * @param context
+ * @param cluster
+ * @param itemIndex
+ */
+function getSearchIndexScope(
+	context: IExecuteFunctions,
+	cluster: Cluster,
+	itemIndex: number,
+): Scope | undefined {
+	const useScopedIndex = context.getNodeParameter('useScopedIndex', itemIndex, false) as boolean;
+	if (!useScopedIndex) {
+		return undefined;
+	}
+
+	const bucketName = context.getNodeParameter('couchbaseBucket', itemIndex, '', {
+		extractValue: true,
+	}) as string;
+	const scopeName = context.getNodeParameter('couchbaseScope', itemIndex, '', {
+		extractValue: true,
+	}) as string;
+	return cluster.bucket(bucketName).scope(scopeName);
+}
+
+/**
+ * Returns the global search index manager, or the one of the selected scope if Use Scoped Index is enabled
+ * @param context
+ * @param cluster
+ * @param itemIndex
+ */
+function getSearchIndexManager(
+	context: IExecuteFunctions,
+	cluster: Cluster,
+	itemIndex: number,
+): SearchIndexManager | ScopeSearchIndexManager {
+	return (getSearchIndexScope(context, cluster, itemIndex) ?? cluster).searchIndexes();
+}
+
+/**
+ * Runs a search against a global search index, or against an index of the selected scope if Use Scoped Index is enabled
+ * @param context
+ * @param cluster
+ * @param itemIndex
+ * @param indexName
+ * @param request
+ * @param options
+ */
+async function runSearch(
+	context: IExecuteFunctions,
+	cluster: Cluster,
+	itemIndex: number,
+	indexName: string,
+	request: SearchRequest,
+	options: SearchQueryOptions,
+): Promise<SearchResult> {
+	return await (getSearchIndexScope(context, cluster, itemIndex) ?? cluster).search(
+		indexName,
+		request,
+		options,
+	);
+}
+
+/**
+ * Executes a search index management operation
+ * @param context
+ * @param cluster
+ * @param operation
+ * @param itemIndex
+ */
+async function executeSearchIndexOperation(
+	context: IExecuteFunctions,
+	cluster: Cluster,
+	operation: string,
+	itemIndex: number,
+): Promise<IDataObject[]> {
+	const searchIndexManager = getSearchIndexManager(context, cluster, itemIndex);
+	if (operation === SEARCH_OPS.LIST_INDEXES) {
+		const indexes = await searchIndexManager.getAllIndexes();
+		return indexes.map((index) => ({ ...index }));
+	}
+
+	const indexName = context.getNodeParameter('indexName', itemIndex, '', {
+		extractValue: true,
+	}) as string;
+	switch (operation) {
+		case SEARCH_OPS.GET_INDEX:
+			return [{ ...(await searchIndexManager.getIndex(indexName)) }];
+		case SEARCH_OPS.DROP_INDEX:
+			await searchIndexManager.dropIndex(indexName);
+			return [{ indexName, message: 'Index dropped successfully' }];
+		case SEARCH_OPS.COUNT_INDEXED_DOCUMENTS:
+			return [{ indexName, count: await searchIndexManager.getIndexedDocumentsCount(indexName) }];
+		case SEARCH_OPS.PAUSE_INGEST:
+			await searchIndexManager.pauseIngest(indexName);
+			return [{ indexName, message: 'Index ingest paused successfully' }];
+		case SEARCH_OPS.RESUME_INGEST:
+			await searchIndexManager.resumeIngest(indexName);
+			return [{ indexName, message: 'Index ingest resumed successfully' }];
+		case SEARCH_OPS.ALLOW_QUERYING:
+			await searchIndexManager.allowQuerying(indexName);
+			return [{ indexName, message: 'Index querying allowed successfully' }];
+		case SEARCH_OPS.DISALLOW_QUERYING:
+			await searchIndexManager.disallowQuerying(indexName);
+			return [{ indexName, message: 'Index querying disallowed successfully' }];
+		case SEARCH_OPS.FREEZE_PLAN:
+			await searchIndexManager.freezePlan(indexName);
+			return [{ indexName, message: 'Index plan frozen successfully' }];
+		case SEARCH_OPS.UNFREEZE_PLAN:
+			await searchIndexManager.unfreezePlan(indexName);
+			return [{ indexName, message: 'Index plan unfrozen successfully' }];
+		default: {
+			const document = parseValue(
+				context.getNodeParameter('analyzeDocumentValue', itemIndex, '{}'),
+			);
+			const analysis = await searchIndexManager.analyzeDocument(indexName, document);
+			return [{ indexName, analysis }];
+		}
+	}
+}
+
+/**
+ * Builds the options of a full-text search from the search fields
+ * @param context
+ * @param itemIndex
+ */
+function getSearchOptions(context: IExecuteFunctions, itemIndex: number): SearchQueryOptions {
+	const fieldsToReturn = context.getNodeParameter('fieldsToReturn', itemIndex) as string;
+	const options = context.getNodeParameter('searchOptions', itemIndex, {}) as IDataObject;
+	const searchOptions: SearchQueryOptions = {
+		limit: context.getNodeParameter('resultsLimit', itemIndex) as number,
+		fields: fieldsToReturn ? fieldsToReturn.split(',').map((field) => field.trim()) : [],
+		includeLocations: context.getNodeParameter('includeLocations', itemIndex) as boolean,
+		skip: (options.skip as number | undefined) || undefined,
+		explain: options.explain as boolean | undefined,
+		disableScoring: options.disableScoring as boolean | undefined,
+	};
+
+	if (options.highlightStyle !== undefined || options.highlightFields !== undefined) {
+		const highlightFields = ((options.highlightFields as string | undefined) ?? '')
+			.split(',')
+			.map((field) => field.trim())
+			.filter((field) => field !== '');
+		searchOptions.highlight = {
+			style: (options.highlightStyle as HighlightStyle | undefined) ?? HighlightStyle.HTML,
+			...(highlightFields.length > 0 ? { fields: highlightFields } : {}),
+		};
+	}
+
+	const sortKeys = context.getNodeParameter('searchSort.sortKeys', itemIndex, []) as IDataObject[];
+	if (sortKeys.length > 0) {
+		searchOptions.sort = sortKeys.map((sortKey) => {
+			const descending = (sortKey.descending as boolean | undefined) ?? false;
+			if (sortKey.sortBy === SEARCH_SORT_TYPES.ID) {
+				return SearchSort.id().descending(descending);
+			} else if (sortKey.sortBy === SEARCH_SORT_TYPES.FIELD) {
+				return SearchSort.field(sortKey.field as string).descending(descending);
+			}
+			return SearchSort.score().descending(descending);
+		});
+	}
+
+	const facets = context.getNodeParameter('searchFacets.facets', itemIndex, []) as IDataObject[];
+	if (facets.length > 0) {
+		searchOptions.facets = Object.fromEntries(
+			facets.map((facet) => [facet.name as string, buildSearchFacet(context, itemIndex, facet)]),
+		);
+	}
+
+	return searchOptions;
+}
+
+/**
+ * Builds a facet of a full-text search
+ * @param context
+ * @param itemIndex
+ * @param facet - the values of the facet fields
+ */
+function buildSearchFacet(
+	context: IExecuteFunctions,
+	itemIndex: number,
+	facet: IDataObject,
+): SearchFacet {
+	const field = facet.field as string;
+	const size = (facet.size as number | undefined) ?? 10;
+	if (
+		facet.facetType !== SEARCH_FACET_TYPES.NUMERIC_RANGE &&
+		facet.facetType !== SEARCH_FACET_TYPES.DATE_RANGE
+	) {
+		return SearchFacet.term(field, size);
+	}
+
+	const ranges = parseValue(facet.ranges ?? '[]');
+	if (!Array.isArray(ranges)) {
+		throw new NodeOperationError(
+			context.getNode(),
+			`Ranges of facet "${facet.name}" must be a JSON array`,
+			{ itemIndex },
+		);
+	}
+
+	if (facet.facetType === SEARCH_FACET_TYPES.NUMERIC_RANGE) {
+		const numericFacet = SearchFacet.numeric(field, size);
+		for (const range of ranges as IDataObject[]) {
+			numericFacet.addRange(
+				range.name as string,
+				range.min as number | undefined,
+				range.max as number | undefined,
+			);
+		}
+		return numericFacet;
+	}
+
+	const parseRangeDate = (range: IDataObject, bound: 'start' | 'end'): Date | undefined => {
+		if (range[bound] === undefined || range[bound] === null || range[bound] === '') {
+			return undefined;
+		}
+
+		const date = new Date(range[bound] as string);
+		if (isNaN(date.getTime())) {
+			throw new NodeOperationError(
+				context.getNode(),
+				`Invalid ${bound} date in range "${range.name}" of facet "${facet.name}".`,
+				{
+					description: 'Please provide a valid date, e.g. 2024-01-01T00:00:00Z.',
+					itemIndex,
+				},
+			);
+		}
+		return date;
+	};
+
+	const dateFacet = SearchFacet.date(field, size);
+	for (const range of ranges as IDataObject[]) {
+		dateFacet.addRange(
+			range.name as string,
+			parseRangeDate(range, 'start'),
+			parseRangeDate(range, 'end'),
+		);
+	}
+	return dateFacet;
+}
+
+/**
+ * Builds the request of a vector or hybrid search. Hybrid searches also run the full-text query of the query builder.
+ * @param context
+ * @param itemIndex
+ * @param searchType
+ */
+async function buildVectorSearchRequest(
+	context: IExecuteFunctions,
+	itemIndex: number,
+	searchType: string,
+): Promise<SearchRequest> {
+	const vectorSource = context.getNodeParameter(
+		'vectorSource',
+		itemIndex,
+		VECTOR_SOURCES.VECTOR,
+	) as string;
+
+	let vector: number[] | string;
+	if (vectorSource === VECTOR_SOURCES.EMBEDDINGS) {
+		const embeddings = (await context.getInputConnectionData(
+			NodeConnectionTypes.AiEmbedding,
+			0,
+		)) as Embeddings;
+		const text = context.getNodeParameter('vectorQueryText', itemIndex, '') as string;
+		vector = await embeddings.embedQuery(text);
+	} else {
+		const vectorValue = parseValue(context.getNodeParameter('vectorValue', itemIndex, '[]'));
+		const isNumberArray =
+			Array.isArray(vectorValue) &&
+			vectorValue.length > 0 &&
+			vectorValue.every((value) => typeof value === 'number');
+		if (!isNumberArray && (typeof vectorValue !== 'string' || vectorValue === '')) {
+			throw new NodeOperationError(
+				context.getNode(),
+				'Vector must be a non-empty array of numbers or a Base64 encoded string',
+				{ itemIndex },
+			);
+		}
+		vector = vectorValue as number[] | string;
+	}
+
+	const vectorField = context.getNodeParameter('vectorField', itemIndex, '') as string;
+	const k = context.getNodeParameter('vectorK', itemIndex, 3) as number;
+	const prefilter = context.getNodeParameter('vectorPrefilter', itemIndex, '') as string;
+	const vectorQuery = VectorQuery.create(vectorField, vector).numCandidates(k);
+	if (prefilter.trim() !== '') {
+		vectorQuery.prefilter(SearchQuery.queryString(prefilter));
+	}
+
+	const searchRequest = SearchRequest.create(VectorSearch.fromVectorQuery(vectorQuery));
+	return searchType === SEARCH_TYPES.HYBRID
+		? searchRequest.withSearchQuery(buildSearchQuery(context, itemIndex))
+		: searchRequest;
+}
+
+/**
+ * Builds the full-text search query from the query builder fields
+ * @param context
+ * @param itemIndex
+ */
+function buildSearchQuery(context: IExecuteFunctions, itemIndex: number): SearchQuery {
+	const queryType = context.getNodeParameter(
+		'searchQueryType',
+		itemIndex,
+		SEARCH_QUERY_TYPES.MATCH,
+	) as string;
+	if (!COMPOUND_SEARCH_QUERY_TYPES.includes(queryType)) {
+		const parameters: IDataObject = { searchQueryType: queryType };
+		for (const name of SIMPLE_SEARCH_QUERY_PARAMETERS) {
+			parameters[name] = context.getNodeParameter(name, itemIndex, undefined);
+		}
+		return buildSimpleSearchQuery(context, itemIndex, parameters);
+	}
+
+	const subQueries = context.getNodeParameter(
+		'searchSubQueries.queries',
+		itemIndex,
+		[],
+	) as IDataObject[];
+	if (subQueries.length === 0) {
+		throw new NodeOperationError(context.getNode(), 'Add at least one query to combine', {
+			itemIndex,
+		});
+	}
+	const boost = context.getNodeParameter('searchBoost', itemIndex, 1) as number;
+
+	if (queryType === SEARCH_QUERY_TYPES.CONJUNCTION) {
+		const conjunctionQuery = SearchQuery.conjuncts(
+			subQueries.map((subQuery) => buildSimpleSearchQuery(context, itemIndex, subQuery)),
+		);
+		return boost !== 1 ? conjunctionQuery.boost(boost) : conjunctionQuery;
+	} else if (queryType === SEARCH_QUERY_TYPES.DISJUNCTION) {
+		const disjunctionQuery = SearchQuery.disjuncts(
+			subQueries.map((subQuery) => buildSimpleSearchQuery(context, itemIndex, subQuery)),
+		);
+		return boost !== 1 ? disjunctionQuery.boost(boost) : disjunctionQuery;
+	}
+
+	const getQueries = (occurrence: string) =>
+		subQueries
+			.filter((subQuery) => (subQuery.occurrence ?? SEARCH_QUERY_OCCURRENCES.MUST) === occurrence)
+			.map((subQuery) => buildSimpleSearchQuery(context, itemIndex, subQuery));
+	const must = getQueries(SEARCH_QUERY_OCCURRENCES.MUST);
+	const should = getQueries(SEARCH_QUERY_OCCURRENCES.SHOULD);
+	const mustNot = getQueries(SEARCH_QUERY_OCCURRENCES.MUST_NOT);
+
+	const booleanQuery = SearchQuery.boolean();
+	if (must.length > 0) {
+		booleanQuery.must(SearchQuery.conjuncts(must));
+	}
+	if (should.length > 0) {
+		booleanQuery.should(SearchQuery.disjuncts(should));
+		booleanQuery.shouldMin(context.getNodeParameter('searchShouldMin', itemIndex, 1) as number);
+	}
+	if (mustNot.length > 0) {
+		booleanQuery.mustNot(SearchQuery.disjuncts(mustNot));
+	}
+	return booleanQuery;
+}
+
+/**
+ * Builds a full-text search query that does not combine other queries. Parameters that do not apply to the
+ * query type are ignored, and empty ones are left to their server defaults.
+ * @param context
+ * @param itemIndex
+ * @param parameters - the values of the query fields, keyed by field name
+ */
+function buildSimpleSearchQuery(
+	context: IExecuteFunctions,
+	itemIndex: number,
+	parameters: IDataObject,
+): SearchQuery {
+	const text = (parameters.searchQuery as string | undefined) ?? '';
+	const field = (parameters.searchField as string | undefined) ?? '';
+	const analyzer = (parameters.searchAnalyzer as string | undefined) ?? '';
+	const fuzziness = (parameters.searchFuzziness as number | undefined) ?? 0;
+	const prefixLength = (parameters.searchPrefixLength as number | undefined) ?? 0;
+	const boost = (parameters.searchBoost as number | undefined) ?? 1;
+	const min = (parameters.searchRangeMin as string | undefined) ?? '';
+	const max = (parameters.searchRangeMax as string | undefined) ?? '';
+	const inclusiveMin = (parameters.searchRangeInclusiveMin as boolean | undefined) ?? true;
+	const inclusiveMax = (parameters.searchRangeInclusiveMax as boolean | undefined) ?? false;
+
+	const parseNumber = (value: string, name: string) => {
+		const number = Number(value);
+		if (Number.isNaN(number)) {
+			throw new NodeOperationError(context.getNode(), `${name} "${value}" is not a number`, {
+				itemIndex,
+			});
+		}
+		return number;
+	};
+
+	let query;
+	switch (parameters.searchQueryType ?? SEARCH_QUERY_TYPES.MATCH) {
+		case SEARCH_QUERY_TYPES.MATCH:
+		case SEARCH_QUERY_TYPES.FUZZY: {
+			const matchQuery = SearchQuery.match(text).operator(
+				(parameters.searchMatchOperator as MatchOperator | undefined) ?? MatchOperator.Or,
+			);
+			query = analyzer ? matchQuery.analyzer(analyzer) : matchQuery;
+			query = fuzziness > 0 ? query.fuzziness(fuzziness).prefixLength(prefixLength) : query;
+			query = field ? query.field(field) : query;
+			break;
+		}
+		case SEARCH_QUERY_TYPES.MATCH_PHRASE:
+			query = SearchQuery.matchPhrase(text);
+			query = analyzer ? query.analyzer(analyzer) : query;
+			query = field ? query.field(field) : query;
+			break;
+		case SEARCH_QUERY_TYPES.QUERY_STRING:
+			query = SearchQuery.queryString(text);
+			break;
+		case SEARCH_QUERY_TYPES.TERM:
+			query = SearchQuery.term(text);
+			query = fuzziness > 0 ? query.fuzziness(fuzziness).prefixLength(prefixLength) : query;
+			query = field ? query.field(field) : query;
+			break;
+		case SEARCH_QUERY_TYPES.PREFIX:
+			query = SearchQuery.prefix(text);
+			query = field ? query.field(field) : query;
+			break;
+		case SEARCH_QUERY_TYPES.WILDCARD:
+			query = SearchQuery.wildcard(text);
+			query = field ? query.field(field) : query;
+			break;
+		case SEARCH_QUERY_TYPES.REGEXP:
+			query = SearchQuery.regexp(text);
+			query = field ? query.field(field) : query;
+			break;
+		case SEARCH_QUERY_TYPES.NUMERIC_RANGE:
+			query = SearchQuery.numericRange();
+			query = min !== '' ? query.min(parseNumber(min, 'Min'), inclusiveMin) : query;
+			query = max !== '' ? query.max(parseNumber(max, 'Max'), inclusiveMax) : query;
+			query = field ? query.field(field) : query;
+			break;
+		case SEARCH_QUERY_TYPES.DATE_RANGE: {
+			const dateTimeParser = (parameters.searchDateTimeParser as string | undefined) ?? '';
+			query = SearchQuery.dateRange();
+			query = min !== '' ? query.start(min, inclusiveMin) : query;
+			query = max !== '' ? query.end(max, inclusiveMax) : query;
+			query = dateTimeParser ? query.dateTimeParser(dateTimeParser) : query;
+			query = field ? query.field(field) : query;
+			break;
+		}
+		case SEARCH_QUERY_TYPES.BOOLEAN_FIELD:
+			query = SearchQuery.booleanField((parameters.searchBooleanValue as boolean) ?? true);
+			query = field ? query.field(field) : query;
+			break;
+		default:
+			throw new NodeOperationError(
+				context.getNode(),
+				`Unsupported search query type: ${parameters.searchQueryType}`,
+				{ itemIndex },
+			);
+	}
+
+	return boost !== 1 ? query.boost(boost) : query;
+}
+
+/**
+ * Validates and opens the collection identified by the given bucket, scope, and collection names
+ * @param context
+ * @param cluster
+ * @param bucketName
+ * @param scopeName
+ * @param collectionName
+ */
+async function openCollection(
+	context: IExecuteFunctions,
+	cluster: Cluster,
+	bucketName: string,
+	scopeName: string,
+	collectionName: string,
+): Promise<Collection> {
+	await validateBucketScopeCollection(context, bucketName, scopeName, collectionName);
+
+	try {
+		return cluster.bucket(bucketName).scope(scopeName).collection(collectionName);
+	} catch (error) {
+		throw new NodeOperationError(
+			context.getNode(),
+			`Could not access collection: ${error.message}.`,
+			{
+				description:
+					'Please ensure the selected bucket, scope, and collection exist and the credentials have permissions.',
+			},
+		);
+	}
+}
+
+/**
+ * Retrieves the collection from the Couchbase cluster using the provided parameters.
+ * Collections are cached per execution so that bucket, scope, and collection are only validated once,
+ * even when several items are processed concurrently.
+ * @param context
+ * @param cluster
+ * @param itemIndex
+ * @param cache
+ */
+async function getCollection(
+	context: IExecuteFunctions,
+	cluster: Cluster,
+	itemIndex: number,
+	cache: Map<string, Promise<Collection>>,
+): Promise<Collection> {
+	const couchbaseBucketName = context.getNodeParameter('couchbaseBucket', itemIndex, '', {
+		extractValue: true,
+	}) as string;
+	const couchbaseScopeName = context.getNodeParameter('couchbaseScope', itemIndex, '', {
+		extractValue: true,
+	}) as string;
+	const couchbaseCollectionName = context.getNodeParameter('couchbaseCollection', itemIndex, '', {
+		extractValue: true,
+	}) as string;
+
+	return await getCachedCollection(
+		context,
+		cluster,
+		couchbaseBucketName,
+		couchbaseScopeName,
+		couchbaseCollectionName,
+		cache,
+	);
+}
+
+/**
+ * Opens a collection once per execution, sharing the pending promise between concurrent callers
+ * @param context
+ * @param cluster
+ * @param bucketName
+ * @param scopeName
+ * @param collectionName
+ * @param cache - collections opened so far, keyed by keyspace
+ */
+async function getCachedCollection(
+	context: IExecuteFunctions,
+	cluster: Cluster,
+	bucketName: string,
+	scopeName: string,
+	collectionName: string,
+	cache: Map<string, Promise<Collection>>,
+): Promise<Collection> {
+	const cacheKey = `${bucketName}.${scopeName}.${collectionName}`;
+	let collection = cache.get(cacheKey);
+	if (!collection) {
+		collection = openCollection(context, cluster, bucketName, scopeName, collectionName);
+		cache.set(cacheKey, collection);
+	}
+
+	return collection;
+}
+
+/**
+ * Runs `task` for every index in `[0, count)` with at most `concurrency` tasks in flight at once
+ * @param count
+ * @param concurrency
+ * @param task
+ * @returns PromiseSettledResult[] - settled results in index order
+ */
+async function runWithConcurrency<T>(
+	count: number,
+	concurrency: number,
+	task: (index: number) => Promise<T>,
+): Promise<Array<PromiseSettledResult<T>>> {
+	const results = new Array<PromiseSettledResult<T>>(count);
+	let nextIndex = 0;
+
+	const worker = async () => {
+		while (nextIndex < count) {
+			const index = nextIndex++;
+			try {
+				results[index] = { status: 'fulfilled', value: await task(index) };
+			} catch (error) {
+				results[index] = { status: 'rejected', reason: error };
+			}
+		}
+	};
+
+	const workerCount = Math.max(1, Math.min(concurrency, count));
+	await Promise.all(Array.from({ length: workerCount }, worker));
+
+	return results;
+}
+
+/**
+ * Returns the optional CAS value of an item, or undefined when none was provided
+ * @param context
+ * @param itemIndex
+ */
+function getCasParameter(context: IExecuteFunctions, itemIndex: number): string | undefined {
+	const cas = String(context.getNodeParameter('cas', itemIndex, '')).trim();
+	return cas || undefined;
+}
+
+/**
+ * Returns the expiry of an item as a number of seconds or an absolute date, or undefined when the document should not expire
+ * @param context
+ * @param itemIndex
+ */
+function getExpiryParameter(
+	context: IExecuteFunctions,
+	itemIndex: number,
+): number | Date | undefined {
+	const expiryType = context.getNodeParameter('expiry', itemIndex, EXPIRY_TYPES.NONE) as string;
+
+	if (expiryType === EXPIRY_TYPES.DURATION) {
+		const duration = context.getNodeParameter('expiryDuration', itemIndex, 0) as number;
+		const unit = context.getNodeParameter('expiryDurationUnit', itemIndex, 'seconds') as string;
+		return duration * EXPIRY_UNIT_SECONDS[unit];
+	}
+
+	if (expiryType === EXPIRY_TYPES.DATE) {
+		const expiryDate = new Date(context.getNodeParameter('expiryDate', itemIndex, '') as string);
+		if (isNaN(expiryDate.getTime())) {
+			throw new NodeOperationError(context.getNode(), 'Invalid expiry date.', {
+				description: 'Please provide a valid date and time for "Expire At".',
+				itemIndex,
+			});
+		}
+		return expiryDate;
+	}
+
+	return undefined;
+}
+
+/**
+ * Formats an expiry time in Unix seconds as an ISO date, or null when the document does not expire
+ * @param expiryTime
+ */
+function formatExpiryTime(expiryTime: number | undefined): string | null {
+	return expiryTime ? new Date(expiryTime * 1000).toISOString() : null;
+}
+
+/**
+ * Returns the durability requirement of an item as SDK mutation options
+ * @param context
+ * @param itemIndex
+ */
+function getDurabilityParameter(
+	context: IExecuteFunctions,
+	itemIndex: number,
+): DurabilityOptions | undefined {
+	return getDurabilityOptions(
+		context.getNodeParameter('durabilityLevel', itemIndex, DURABILITY_LEVELS.NONE) as string,
+		context.getNodeParameter('durabilityPersistTo', itemIndex, 0) as number,
+		context.getNodeParameter('durabilityReplicateTo', itemIndex, 0) as number,
+	);
+}
+
+/**
+ * Converts known Couchbase errors into node errors with a user-friendly message, leaving other errors untouched
+ * @param context
+ * @param error
+ * @param itemIndex
+ */
+function mapCouchbaseError(context: IExecuteFunctions, error: Error, itemIndex: number): Error {
+	if (error instanceof CasMismatchError) {
+		const documentId = (error.context as KeyValueErrorContext | undefined)?.key;
+		return new NodeOperationError(
+			context.getNode(),
+			`Document "${documentId}" was changed by another process since its CAS value was read (CAS mismatch).`,
+			{
+				description:
+					'Read the document again to get its current CAS value, then retry the operation with it.',
+				itemIndex,
+			},
+		);
+	}
+
+	const durabilityErrorDescription = makeDurabilityErrorDescription(error as CouchbaseError);
+	if (durabilityErrorDescription) {
+		return new NodeOperationError(
+			context.getNode(),
+			`Durability requirement could not be met: ${error.message}.`,
+			{
+				description: durabilityErrorDescription,
+				itemIndex,
+			},
+		);
+	}
+
+	return error;
+}
+
+/**
+ * Returns the ID of the document to create, either specified by the user or generated with the selected strategy
+ * @param context
+ * @param itemIndex
+ * @param collection - the collection holding the counter document of sequential IDs
+ */
+async function getCreateDocumentId(
+	context: IExecuteFunctions,
+	itemIndex: number,
+	collection: Collection,
+): Promise<string> {
+	const isSpecifyDocumentId = context.getNodeParameter(
+		'isSpecifyDocumentId',
+		itemIndex,
+		false,
+	) as boolean;
+	if (isSpecifyDocumentId) {
+		const specifiedDocumentId = context.getNodeParameter('documentId', itemIndex, '') as string;
+		return specifiedDocumentId.trim();
+	}
+
+	const strategy = context.getNodeParameter(
+		'documentIdStrategy',
+		itemIndex,
+		DOCUMENT_ID_STRATEGIES.UUID_V4,
+	) as string;
+	const prefix = context.getNodeParameter('documentIdPrefix', itemIndex, '') as string;
+
+	switch (strategy) {
+		case DOCUMENT_ID_STRATEGIES.UUID_V7:
+			return prefix + uuid.v7();
+		case DOCUMENT_ID_STRATEGIES.ULID:
+			return prefix + generateUlid();
+		case DOCUMENT_ID_STRATEGIES.TEMPLATE:
+			return prefix + renderDocumentIdTemplate(context, itemIndex);
+		case DOCUMENT_ID_STRATEGIES.SEQUENCE: {
+			const counterKey = context.getNodeParameter('documentIdCounterKey', itemIndex, '') as string;
+			// The counter starts at 1 and increments atomically, so parallel executions never get the same ID
+			const counterResult: CounterResult = await collection
+				.binary()
+				.increment(counterKey.trim(), 1, { initial: 1 });
+			return prefix + counterResult.value.toString();
+		}
+		default:
+			return prefix + uuid.v4();
+	}
+}
+
+/**
+ * Builds a document ID from the key template, replacing each {{path}} with the value at that path in the input item.
+ * The built-in placeholders ts, uuid, and ulid are used when the item has no field with that name.
+ * @param context
+ * @param itemIndex
+ */
+function renderDocumentIdTemplate(context: IExecuteFunctions, itemIndex: number): string {
+	const template = context.getNodeParameter('documentIdTemplate', itemIndex, '') as string;
+	const item = context.getInputData()[itemIndex].json;
+	const builtIns: { [name: string]: () => string } = {
+		ts: () => Date.now().toString(),
+		uuid: () => uuid.v4(),
+		ulid: () => generateUlid(),
+	};
+
+	return template.replace(/\{\{\s*([^{}]+?)\s*\}\}/g, (_match, path: string) => {
+		const value = getValueAtPath(item, path);
+		if (value !== undefined && value !== null && typeof value !== 'object') {
+			return String(value);
+		}
+		if (value === undefined && builtIns[path]) {
+			return builtIns[path]();
+		}
+
+		throw new NodeOperationError(
+			context.getNode(),
+			`Key template field "${path}" is missing or not a plain value`,
+			{
+				description:
+					'Every field referenced in the key template must be a string, number, or boolean in the input item.',
+				itemIndex,
+			},
+		);
+	});
+}
+
+/**
+ * Writes the fields of a value into an existing document with sub-document upserts, creating missing paths.
+ * Values with more fields than fit in a single sub-document request are written in several requests,
+ * each conditional on the CAS of the previous one.
+ * @param context
+ * @param itemIndex
+ * @param collection
+ * @param id
+ * @param value - the JSON object to merge into the document
+ * @param deep - whether to merge nested objects field by field instead of replacing them
+ * @param expiry
+ * @param durability
+ * @returns Cas - the CAS value of the document after the merge
+ */
+async function mergeIntoDocument(
+	context: IExecuteFunctions,
+	itemIndex: number,
+	collection: Collection,
+	id: string,
+	value: unknown,
+	deep: boolean,
+	expiry: number | Date | undefined,
+	durability: DurabilityOptions | undefined,
+): Promise<Cas> {
+	if (!isPlainObject(value)) {
+		throw new NodeOperationError(
+			context.getNode(),
+			'Document Value must be a JSON object to merge it into the existing document',
+			{ itemIndex },
+		);
+	}
+
+	const specs = getMergeSpecs(value, deep, '');
+	if (specs.length === 0) {
+		const existsResult: ExistsResult = await collection.exists(id);
+		return existsResult.cas as Cas;
+	}
+
+	let cas: Cas | undefined;
+	for (let index = 0; index < specs.length; index += MAX_MUTATE_IN_SPECS) {
+		const mutateInResult: MutateInResult = await collection.mutateIn(
+			id,
+			specs.slice(index, index + MAX_MUTATE_IN_SPECS),
+			{ cas, expiry, ...durability },
+		);
+		cas = mutateInResult.cas;
+	}
+	return cas as Cas;
+}
+
+/**
+ * Builds the sub-document upserts that write the fields of a value, one per top-level field or,
+ * for a deep merge, one per field that is not a non-empty object
+ * @param value
+ * @param deep
+ * @param parentPath - the path of the value in the document, ending with a dot, or empty for the document root
+ */
+function getMergeSpecs(value: IDataObject, deep: boolean, parentPath: string): MutateInSpec[] {
+	return Object.entries(value).flatMap(([key, fieldValue]) => {
+		// Field names with path syntax characters must be escaped with backticks
+		const segment = /[.[\]`]/.test(key) ? `\`${key.replace(/`/g, '``')}\`` : key;
+		const path = parentPath + segment;
+		if (deep && isPlainObject(fieldValue) && Object.keys(fieldValue).length > 0) {
+			return getMergeSpecs(fieldValue, deep, `${path}.`);
+		}
+		return [MutateInSpec.upsert(path, fieldValue, { createPath: true })];
+	});
+}
+
+/**
+ * Whether a value is a JSON object, as opposed to an array, a primitive, or null
+ * @param value
+ */
+function isPlainObject(value: unknown): value is IDataObject {
+	return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Returns the transcoder for the selected document format
+ * @param documentFormat
+ * @returns Transcoder - the transcoder, or undefined to use the default JSON transcoder of the collection
+ */
+function getTranscoder(documentFormat: string): Transcoder | undefined {
+	switch (documentFormat) {
+		case DOCUMENT_FORMATS.RAW_JSON:
+			return new RawJsonTranscoder();
+		case DOCUMENT_FORMATS.RAW_STRING:
+			return new RawStringTranscoder();
+		case DOCUMENT_FORMATS.RAW_BINARY:
+			return new RawBinaryTranscoder();
+		default:
+			return undefined;
+	}
+}
+
+/**
+ * Converts the document value parameter into the content to write in the selected document format
+ * @param context
+ * @param itemIndex
+ * @param documentFormat
+ * @param documentValue
+ */
+function encodeDocumentValue(
+	context: IExecuteFunctions,
+	itemIndex: number,
+	documentFormat: string,
+	documentValue: unknown,
+): unknown {
+	if (documentFormat === DOCUMENT_FORMATS.RAW_BINARY) {
+		return Buffer.from(String(documentValue), 'base64');
+	} else if (documentFormat === DOCUMENT_FORMATS.RAW_JSON) {
+		return typeof documentValue === 'string' ? documentValue : JSON.stringify(documentValue);
+	} else if (documentFormat === DOCUMENT_FORMATS.RAW_STRING) {
+		return String(documentValue);
+	}
+
+	// Older node versions write the value as-is, which stores a JSON string as a string literal
+	if (context.getNode().typeVersion < 3) {
+		return documentValue;
+	}
+
+	try {
+		return typeof documentValue === 'string' ? JSON.parse(documentValue) : documentValue;
+	} catch (error) {
+		throw new NodeOperationError(context.getNode(), 'Document Value is not valid JSON', {
+			description:
+				'Fix the JSON, or select the "Raw String" document format to store the value as plain text.',
+			itemIndex,
+		});
+	}
+}
+
+/**
+ * Deletes or touches the companion metadata document of a binary file along with the file, if enabled for the item.
+ * Files without a companion document are skipped.
+ * @param context
+ * @param itemIndex
+ * @param documentId - the ID of the binary document
+ * @param mutate - the operation to run on the companion document, given its ID
+ */
+async function updateBinaryMetadataDocument(
+	context: IExecuteFunctions,
+	itemIndex: number,
+	documentId: string,
+	mutate: (metadataId: string) => Promise<unknown>,
+): Promise<void> {
+	if (!context.getNodeParameter('binaryMetadataDocument', itemIndex, false)) {
+		return;
+	}
+
+	try {
+		await mutate(`${documentId}${BINARY_METADATA_DOCUMENT_SUFFIX}`);
+	} catch (error) {
+		if (!(error instanceof DocumentNotFoundError)) {
+			throw error;
+		}
+	}
+}
+
+/**
+ * Executes a single Key-Value document operation for an input item
+ * @param context
+ * @param cluster
+ * @param operation
+ * @param itemIndex
+ * @param collectionCache
+ */
+async function executeKeyValueOperation(
+	context: IExecuteFunctions,
+	cluster: Cluster,
+	operation: string,
+	itemIndex: number,
+	collectionCache: Map<string, Promise<Collection>>,
+): Promise<IDataObject> {
+	if (operation === DOCUMENT_OPS.CREATE) {
+		const documentToInsert = context.getNodeParameter('documentValue', itemIndex, '') as string;
+		const documentFormat = context.getNodeParameter(
+			'documentFormat',
+			itemIndex,
+			DOCUMENT_FORMATS.JSON,
+		) as string;
+		const content = encodeDocumentValue(context, itemIndex, documentFormat, documentToInsert);
+		const expiry = getExpiryParameter(context, itemIndex);
+		const durability = getDurabilityParameter(context, itemIndex);
+
+		const transcoder = getTranscoder(documentFormat);
+		const ifDocumentExists = context.getNodeParameter(
+			'ifDocumentExists',
+			itemIndex,
+			IF_DOCUMENT_EXISTS.FAIL,
+		) as string;
+
+		const collection = await getCollection(context, cluster, itemIndex, collectionCache);
+		const id = await getCreateDocumentId(context, itemIndex, collection);
+		try {
+			const mutationResult: MutationResult = await collection.insert(id, content, {
+				expiry,
+				transcoder,
+				...durability,
+			});
+			return {
+				id: id,
+				value: documentToInsert,
+				cas: mutationResult.cas.toString(),
+				action: 'created',
+			};
+		} catch (error) {
+			if (!(error instanceof DocumentExistsError) || ifDocumentExists === IF_DOCUMENT_EXISTS.FAIL) {
+				throw error;
+			}
+		}
+
+		if (ifDocumentExists === IF_DOCUMENT_EXISTS.SKIP) {
+			const getResult: GetResult = await collection.get(id, { transcoder });
+			return formatDocument(context, itemIndex, id, getResult.content, {
+				cas: getResult.cas.toString(),
+				action: 'skipped',
+			});
+		} else if (ifDocumentExists === IF_DOCUMENT_EXISTS.OVERWRITE) {
+			const mutationResult: MutationResult = await collection.upsert(id, content, {
+				expiry,
+				transcoder,
+				...durability,
+			});
+			return {
+				id,
+				value: documentToInsert,
+				cas: mutationResult.cas.toString(),
+				action: 'overwritten',
+			};
+		}
+
+		if (documentFormat !== DOCUMENT_FORMATS.JSON) {
+			throw new NodeOperationError(
+				context.getNode(),
+				'Only JSON documents can be merged into an existing document',
+				{
+					description: 'Select the JSON document format, or overwrite the existing document.',
+					itemIndex,
+				},
+			);
+		}
+		const cas = await mergeIntoDocument(
+			context,
+			itemIndex,
+			collection,
+			id,
+			parseValue(content),
+			ifDocumentExists === IF_DOCUMENT_EXISTS.MERGE_DEEP,
+			expiry,
+			durability,
+		);
+		return { id, value: documentToInsert, cas: cas.toString(), action: 'merged' };
+	} else if (operation === DOCUMENT_OPS.UPSERT) {
+		const newDocumentValue = context.getNodeParameter('documentValue', itemIndex, '') as string;
+		const documentFormat = context.getNodeParameter(
+			'documentFormat',
+			itemIndex,
+			DOCUMENT_FORMATS.JSON,
+		) as string;
+		const content = encodeDocumentValue(context, itemIndex, documentFormat, newDocumentValue);
+		const transcoder = getTranscoder(documentFormat);
+		const id = context.getNodeParameter('documentId', itemIndex, '') as string;
+		const cas = getCasParameter(context, itemIndex);
+		const expiry = getExpiryParameter(context, itemIndex);
+		const durability = getDurabilityParameter(context, itemIndex);
+		const collection = await getCollection(context, cluster, itemIndex, collectionCache);
+		// Upserts cannot be conditional, so a CAS turns the write into a replace of the existing document
+		const mutationResult: MutationResult = cas
+			? await collection.replace(id, content, { cas, expiry, transcoder, ...durability })
+			: await collection.upsert(id, content, { expiry, transcoder, ...durability });
+		return { id, value: newDocumentValue, cas: mutationResult.cas.toString() };
+	} else if (operation === DOCUMENT_OPS.REPLACE) {
+		const newDocumentValue = context.getNodeParameter('documentValue', itemIndex, '') as string;
+		const documentFormat = context.getNodeParameter(
+			'documentFormat',
+			itemIndex,
+			DOCUMENT_FORMATS.JSON,
+		) as string;
+		const content = encodeDocumentValue(context, itemIndex, documentFormat, newDocumentValue);
+		const id = context.getNodeParameter('documentId', itemIndex, '') as string;
+		const cas = getCasParameter(context, itemIndex);
+		const expiry = getExpiryParameter(context, itemIndex);
+		const durability = getDurabilityParameter(context, itemIndex);
+		const collection = await getCollection(context, cluster, itemIndex, collectionCache);
+		const mutationResult: MutationResult = await collection.replace(id, content, {
+			cas,
+			expiry,
+			transcoder: getTranscoder(documentFormat),
+			...durability,
+		});
+		return { id, value: newDocumentValue, cas: mutationResult.cas.toString() };
+	} else if (operation === DOCUMENT_OPS.DELETE) {
+		const documentId = context.getNodeParameter('documentId', itemIndex, '') as string;
+		const cas = getCasParameter(context, itemIndex);
+		const durability = getDurabilityParameter(context, itemIndex);
+		const collection = await getCollection(context, cluster, itemIndex, collectionCache);
+		const removeResult: MutationResult = await collection.remove(documentId, {
+			cas,
+			...durability,
+		});
+		await updateBinaryMetadataDocument(context, itemIndex, documentId, (metadataId) =>
+			collection.remove(metadataId, durability),
+		);
+		return { id: documentId, value: removeResult };
+	} else if (operation === DOCUMENT_OPS.TOUCH) {
+		const documentId = context.getNodeParameter('documentId', itemIndex, '') as string;
+		// An expiry of 0 removes any existing expiry from the document
+		const expiry = getExpiryParameter(context, itemIndex) ?? 0;
+		// Touch only accepts a durability level, the SDK does not observe it with Persist To / Replicate To
+		const durabilityLevel = context.getNodeParameter(
+			'durabilityLevel',
+			itemIndex,
+			DURABILITY_LEVELS.NONE,
+		) as string;
+		if (durabilityLevel === DURABILITY_LEVELS.LEGACY) {
+			throw new NodeOperationError(
+				context.getNode(),
+				'Touch does not support legacy durability (Persist To / Replicate To).',
+				{
+					description: 'Please select None or one of the Majority durability levels for Touch.',
+					itemIndex,
+				},
+			);
+		}
+		const durability = getDurabilityParameter(context, itemIndex);
+		const collection = await getCollection(context, cluster, itemIndex, collectionCache);
+		const touchOptions = { durabilityLevel: durability?.durabilityLevel };
+		const touchResult: MutationResult = await collection.touch(documentId, expiry, touchOptions);
+		await updateBinaryMetadataDocument(context, itemIndex, documentId, (metadataId) =>
+			collection.touch(metadataId, expiry, touchOptions),
+		);
+		return { id: documentId, cas: touchResult.cas.toString() };
+	} else if (operation === DOCUMENT_OPS.GET_AND_TOUCH) {
+		const documentId = context.getNodeParameter('documentId', itemIndex, '') as string;
+		const expiry = getExpiryParameter(context, itemIndex) ?? 0;
+		const collection = await getCollection(context, cluster, itemIndex, collectionCache);
+		const documentFormat = context.getNodeParameter(
+			'documentFormat',
+			itemIndex,
+			DOCUMENT_FORMATS.JSON,
+		) as string;
+		const getResult: GetResult = await collection.getAndTouch(documentId, expiry, {
+			transcoder: getTranscoder(documentFormat),
+		});
+		await updateBinaryMetadataDocument(context, itemIndex, documentId, (metadataId) =>
+			collection.touch(metadataId, expiry),
+		);
+		return formatDocument(context, itemIndex, documentId, getResult.content, {
+			cas: getResult.cas.toString(),
+		});
+	} else if (operation === DOCUMENT_OPS.EXISTS) {
+		const documentId = context.getNodeParameter('documentId', itemIndex, '') as string;
+		const collection = await getCollection(context, cluster, itemIndex, collectionCache);
+		const existsResult: ExistsResult = await collection.exists(documentId);
+		return {
+			id: documentId,
+			exists: existsResult.exists,
+			cas: existsResult.exists && existsResult.cas ? existsResult.cas.toString() : null,
+		};
+	} else {
+		const documentId = context.getNodeParameter('documentId', itemIndex, '') as string;
+		const replicaRead = context.getNodeParameter(
+			'replicaRead',
+			itemIndex,
+			REPLICA_READ_MODES.ACTIVE,
+		) as string;
+		const documentFormat = context.getNodeParameter(
+			'documentFormat',
+			itemIndex,
+			DOCUMENT_FORMATS.JSON,
+		) as string;
+		const transcoder = getTranscoder(documentFormat);
+
+		if (replicaRead === REPLICA_READ_MODES.ANY_REPLICA) {
+			const collection = await getCollection(context, cluster, itemIndex, collectionCache);
+			const replicaResult: GetReplicaResult = await collection.getAnyReplica(documentId, {
+				transcoder,
+			});
+			return formatReplicaResult(context, itemIndex, documentId, replicaResult);
+		} else if (replicaRead === REPLICA_READ_MODES.ALL_REPLICAS) {
+			const collection = await getCollection(context, cluster, itemIndex, collectionCache);
+			const replicaResults: GetReplicaResult[] = await collection.getAllReplicas(documentId, {
+				transcoder,
+			});
+			return {
+				id: documentId,
+				replicas: replicaResults.map((replicaResult) =>
+					formatReplicaResult(context, itemIndex, undefined, replicaResult),
+				),
+			};
+		}
+
+		// Raw documents are not JSON, so they cannot be read with sub-document lookups
+		const isJson = documentFormat === DOCUMENT_FORMATS.JSON;
+		const withExpiry =
+			isJson && (context.getNodeParameter('withExpiry', itemIndex, false) as boolean);
+		const projectFields = isJson
+			? (context.getNodeParameter('projectFields', itemIndex, '') as string)
+			: '';
+		const project = projectFields
+			.split(',')
+			.map((field) => field.trim())
+			.filter((field) => field !== '');
+		const collection = await getCollection(context, cluster, itemIndex, collectionCache);
+		const getResult: GetResult = await collection.get(documentId, {
+			withExpiry,
+			transcoder,
+			...(project.length > 0 ? { project } : {}),
+		});
+		return formatDocument(context, itemIndex, documentId, getResult.content, {
+			cas: getResult.cas.toString(),
+			...(withExpiry ? { expiryTime: formatExpiryTime(getResult.expiryTime) } : {}),
+		});
+	}
+}
+
+/**
+ * Formats a document read by a Key-Value operation.
+ * Up to node version 2 the content is output as a JSON string under `value`. From version 3 it is output as parsed
+ * JSON, optionally merged into the top level of the item, in which case the document ID and metadata take precedence
+ * over document fields with the same name.
+ * @param context
+ * @param itemIndex
+ * @param documentId
+ * @param content
+ * @param metadata - fields such as the CAS value to output along with the content
+ */
+function formatDocument(
+	context: IExecuteFunctions,
+	itemIndex: number,
+	documentId: string | undefined,
+	content: unknown,
+	metadata: IDataObject,
+): IDataObject {
+	const id = documentId === undefined ? {} : { id: documentId };
+
+	const documentFormat = context.getNodeParameter(
+		'documentFormat',
+		itemIndex,
+		DOCUMENT_FORMATS.JSON,
+	) as string;
+	if (documentFormat !== DOCUMENT_FORMATS.JSON) {
+		return { ...id, value: decodeRawContent(documentFormat, content), ...metadata };
+	}
+
+	if (context.getNode().typeVersion < 3) {
+		return { ...id, value: JSON.stringify(content), ...metadata };
+	}
+
+	// Documents written from a JSON string are stored as a string, so they are parsed here as well
+	const value = typeof content === 'string' ? parseValue(content) : content;
+	const mergeDocumentFields = context.getNodeParameter(
+		'mergeDocumentFields',
+		itemIndex,
+		false,
+	) as boolean;
+	if (mergeDocumentFields && isPlainObject(value)) {
+		return { ...value, ...id, ...metadata };
+	}
+
+	return { ...id, value: value as IDataObject, ...metadata };
+}
+
+/**
+ * Converts the content of a document read with a raw transcoder into a value for the output item
+ * @param documentFormat
+ * @param content
+ * @returns string - the JSON text or the string for raw JSON and raw string documents, the bytes Base64 encoded for raw binary documents
+ */
+function decodeRawContent(documentFormat: string, content: unknown): string {
+	if (!Buffer.isBuffer(content)) {
+		return String(content);
+	}
+
+	return content.toString(documentFormat === DOCUMENT_FORMATS.RAW_BINARY ? 'base64' : 'utf8');
+}
+
+/**
+ * Whether the Key-Value operation of an item works on a raw binary document mapped to n8n binary data
+ * @param context
+ * @param operation
+ * @param itemIndex
+ */
+function isBinaryDocumentOperation(
+	context: IExecuteFunctions,
+	operation: string,
+	itemIndex: number,
+): boolean {
+	return (
+		(operation === DOCUMENT_OPS.CREATE ||
+			operation === DOCUMENT_OPS.UPSERT ||
+			operation === DOCUMENT_OPS.READ) &&
+		(context.getNodeParameter('binaryData', itemIndex, false) as boolean)
+	);
+}
+
+/**
+ * Writes or reads a document stored as raw bytes with the RawBinaryTranscoder.
+ * The file name and MIME type of the n8n binary data are kept in an extended attribute or a companion document,
+ * so that a Read can rebuild the binary data.
+ * @param context
+ * @param cluster
+ * @param operation
+ * @param itemIndex
+ * @param collectionCache
+ * @returns INodeExecutionData - the document ID, CAS value, and file metadata, with the binary data for a Read
+ */
+async function executeBinaryDocumentOperation(
+	context: IExecuteFunctions,
+	cluster: Cluster,
+	operation: string,
+	itemIndex: number,
+	collectionCache: Map<string, Promise<Collection>>,
+): Promise<INodeExecutionData> {
+	const binaryPropertyName = context.getNodeParameter(
+		'binaryPropertyName',
+		itemIndex,
+		'data',
+	) as string;
+	const metadataStorage = context.getNodeParameter(
+		'binaryMetadataStorage',
+		itemIndex,
+		BINARY_METADATA_STORAGE.XATTR,
+	) as string;
+	const collection = await getCollection(context, cluster, itemIndex, collectionCache);
+	const transcoder = new RawBinaryTranscoder();
+
+	if (operation === DOCUMENT_OPS.READ) {
+		const id = context.getNodeParameter('documentId', itemIndex, '') as string;
+		const getResult: GetResult = await collection.get(id, { transcoder });
+
+		let metadata: IDataObject = {};
+		if (metadataStorage === BINARY_METADATA_STORAGE.DOCUMENT) {
+			metadata = await collection
+				.get(`${id}${BINARY_METADATA_DOCUMENT_SUFFIX}`)
+				.then((metadataResult: GetResult) => metadataResult.content as IDataObject)
+				.catch((error) => {
+					if (error instanceof DocumentNotFoundError) {
+						return {};
+					}
+					throw error;
+				});
+		} else {
+			const lookupInResult: LookupInResult = await collection.lookupIn(id, [
+				LookupInSpec.get(BINARY_METADATA_XATTR, { xattr: true }),
+			]);
+			metadata = (lookupInResult.content[0].error ? {} : lookupInResult.content[0].value) ?? {};
+		}
+
+		const binaryData = await context.helpers.prepareBinaryData(
+			getResult.content as Buffer,
+			metadata.fileName as string | undefined,
+			metadata.mimeType as string | undefined,
+		);
+
+		return {
+			json: {
+				id,
+				cas: getResult.cas.toString(),
+				fileName: binaryData.fileName ?? null,
+				mimeType: binaryData.mimeType,
+				fileSize: (getResult.content as Buffer).length,
+			},
+			binary: { [binaryPropertyName]: binaryData },
+		};
+	}
+
+	const binaryData = context.helpers.assertBinaryData(itemIndex, binaryPropertyName);
+	const buffer = await context.helpers.getBinaryDataBuffer(itemIndex, binaryPropertyName);
+	const expiry = getExpiryParameter(context, itemIndex);
+	const durability = getDurabilityParameter(context, itemIndex);
+
+	let id: string;
+	let mutationResult: MutationResult;
+	if (operation === DOCUMENT_OPS.CREATE) {
+		id = await getCreateDocumentId(context, itemIndex, collection);
+		mutationResult = await collection.insert(id, buffer, { transcoder, expiry, ...durability });
+	} else {
+		id = context.getNodeParameter('documentId', itemIndex, '') as string;
+		const cas = getCasParameter(context, itemIndex);
+		// Upserts cannot be conditional, so a CAS turns the write into a replace of the existing document
+		mutationResult = cas
+			? await collection.replace(id, buffer, { cas, transcoder, expiry, ...durability })
+			: await collection.upsert(id, buffer, { transcoder, expiry, ...durability });
+	}
+
+	const metadata: IDataObject = {
+		fileName: binaryData.fileName ?? null,
+		mimeType: binaryData.mimeType,
+		fileSize: buffer.length,
+	};
+	if (metadataStorage === BINARY_METADATA_STORAGE.DOCUMENT) {
+		await collection.upsert(`${id}${BINARY_METADATA_DOCUMENT_SUFFIX}`, metadata, {
+			expiry,
+			...durability,
+		});
+	} else {
+		// Writing the extended attribute changes the CAS value, so the CAS of this write is returned
+		mutationResult = await collection.mutateIn(
+			id,
+			[MutateInSpec.upsert(BINARY_METADATA_XATTR, metadata, { xattr: true })],
+			{ cas: mutationResult.cas, expiry, ...durability },
+		);
+	}
+
+	return { json: { id, cas: mutationResult.cas.toString(), ...metadata } };
+}
+
+/**
+ * Executes a Key-Value operation for an input item, including operations on binary documents
+ * @param context
+ * @param cluster
+ * @param operation
+ * @param itemIndex
+ * @param collectionCache
+ */
+async function executeKeyValueItem(
+	context: IExecuteFunctions,
+	cluster: Cluster,
+	operation: string,
+	itemIndex: number,
+	collectionCache: Map<string, Promise<Collection>>,
+): Promise<INodeExecutionData> {
+	if (isBinaryDocumentOperation(context, operation, itemIndex)) {
+		return await executeBinaryDocumentOperation(
+			context,
+			cluster,
+			operation,
+			itemIndex,
+			collectionCache,
+		);
+	}
+
+	return {
+		json: await executeKeyValueOperation(context, cluster, operation, itemIndex, collectionCache),
+	};
+}
+
+/**
+ * Reads the document IDs of a Get Many operation, given either as a comma-separated list or as an array
+ * @param context
+ * @param itemIndex
+ */
+function getDocumentIdsParameter(context: IExecuteFunctions, itemIndex: number): string[] {
+	const documentIds = context.getNodeParameter('documentIds', itemIndex, '') as string | unknown[];
+	let ids: unknown[];
+	if (Array.isArray(documentIds)) {
+		ids = documentIds;
+	} else {
+		const parsedIds = parseValue(documentIds);
+		ids = Array.isArray(parsedIds) ? parsedIds : documentIds.split(',');
+	}
+
+	return ids.map((id) => String(id).trim()).filter((id) => id !== '');
+}
+
+/**
+ * Retrieves several documents concurrently
+ * @param context
+ * @param cluster
+ * @param itemIndex
+ * @param collectionCache
+ * @returns IDataObject[] - one entry per document ID, in the order of the IDs, flagging whether it was found
+ */
+async function executeGetMany(
+	context: IExecuteFunctions,
+	cluster: Cluster,
+	itemIndex: number,
+	collectionCache: Map<string, Promise<Collection>>,
+): Promise<IDataObject[]> {
+	const ids = getDocumentIdsParameter(context, itemIndex);
+	const concurrency = context.getNodeParameter('getManyConcurrency', itemIndex, 10) as number;
+	const documentFormat = context.getNodeParameter(
+		'documentFormat',
+		itemIndex,
+		DOCUMENT_FORMATS.JSON,
+	) as string;
+	const transcoder = getTranscoder(documentFormat);
+	const collection = await getCollection(context, cluster, itemIndex, collectionCache);
+
+	const results = await runWithConcurrency(ids.length, concurrency, async (index) =>
+		collection.get(ids[index], { transcoder }),
+	);
+
+	return results.map((result, index) => {
+		if (result.status === 'fulfilled') {
+			return formatDocument(context, itemIndex, ids[index], result.value.content, {
+				found: true,
+				cas: result.value.cas.toString(),
+			});
+		}
+		if (result.reason instanceof DocumentNotFoundError) {
+			return { id: ids[index], found: false };
+		}
+		throw mapCouchbaseError(context, result.reason, itemIndex);
+	});
+}
+
+/**
+ * Formats a copy of a document read from the active node or a replica
+ * @param context
+ * @param itemIndex
+ * @param documentId - omitted for the copies listed under a single item
+ * @param replicaResult
+ */
+function formatReplicaResult(
+	context: IExecuteFunctions,
+	itemIndex: number,
+	documentId: string | undefined,
+	replicaResult: GetReplicaResult,
+): IDataObject {
+	return formatDocument(context, itemIndex, documentId, replicaResult.content, {
+		cas: replicaResult.cas.toString(),
+		isReplica: replicaResult.isReplica,
+	});
+}
+
+/**
+ * Parses a value entered as text, falling back to the raw string when it is not valid JSON
+ * @param value
+ */
+function parseValue(value: unknown): unknown {
+	if (typeof value !== 'string') {
+		return value;
+	}
+
+	try {
+		return JSON.parse(value);
+	} catch (error) {
+		return value;
+	}
+}
+
+/**
+ * Converts the value of a SQL++ query parameter to its selected type
+ * @param context
+ * @param itemIndex
+ * @param value
+ * @param type - one of QUERY_PARAMETER_TYPES, strings are passed as given
+ */
+function convertQueryParameter(
+	context: IExecuteFunctions,
+	itemIndex: number,
+	value: unknown,
+	type: string | undefined,
+): unknown {
+	if (typeof value !== 'string') {
+		return value;
+	}
+
+	if (type === QUERY_PARAMETER_TYPES.NUMBER) {
+		const number = Number(value);
+		if (value.trim() === '' || isNaN(number)) {
+			throw new NodeOperationError(
+				context.getNode(),
+				`Invalid number query parameter: "${value}".`,
+				{
+					description: 'Please provide a number or change the type of the parameter.',
+					itemIndex,
+				},
+			);
+		}
+		return number;
+	}
+
+	if (type === QUERY_PARAMETER_TYPES.BOOLEAN) {
+		const normalized = value.trim().toLowerCase();
+		if (normalized !== 'true' && normalized !== 'false') {
+			throw new NodeOperationError(
+				context.getNode(),
+				`Invalid boolean query parameter: "${value}".`,
+				{
+					description: 'Please provide true or false or change the type of the parameter.',
+					itemIndex,
+				},
+			);
+		}
+		return normalized === 'true';
+	}
+
+	if (type === QUERY_PARAMETER_TYPES.JSON) {
+		try {
+			return JSON.parse(value);
+		} catch (error) {
+			throw new NodeOperationError(context.getNode(), 'Query parameter value is not valid JSON', {
+				description: 'Fix the JSON, or select another type for the parameter.',
+				itemIndex,
+			});
+		}
+	}
+
+	return value;
+}
+
+/**
+ * Builds the named or positional parameters of a SQL++ query from the node parameters
+ * @param context
+ * @param itemIndex
+ * @returns the parameters to pass as `QueryOptions.parameters`, or undefined if there are none
+ */
+function getQueryParameters(
+	context: IExecuteFunctions,
+	itemIndex: number,
+): { [name: string]: unknown } | unknown[] | undefined {
+	const queryParameters = context.getNodeParameter('queryParameters', itemIndex, {}) as {
+		named?: Array<{ name: string; type?: string; value: unknown }>;
+		positional?: Array<{ type?: string; value: unknown }>;
+	};
+	const named = queryParameters.named ?? [];
+	const positional = queryParameters.positional ?? [];
+
+	if (named.length > 0 && positional.length > 0) {
+		throw new NodeOperationError(
+			context.getNode(),
+			'Named and positional query parameters cannot be combined.',
+			{
+				description: 'Please use either named parameters ($name) or positional parameters ($1).',
+				itemIndex,
+			},
+		);
+	}
+
+	if (named.length > 0) {
+		return Object.fromEntries(
+			named.map(({ name, type, value }) => {
+				const parameterName = name.trim();
+				return [
+					parameterName.startsWith('$') ? parameterName : `$${parameterName}`,
+					convertQueryParameter(context, itemIndex, value, type),
+				];
+			}),
+		);
+	}
+
+	if (positional.length > 0) {
+		return positional.map(({ type, value }) =>
+			convertQueryParameter(context, itemIndex, value, type),
+		);
+	}
+
+	return undefined;
+}
+
+/**
+ * Builds the SQL++ query options of an item from the query context, parameters, and options collection
+ * @param context
+ * @param itemIndex
+ */
+function getQueryOptions(context: IExecuteFunctions, itemIndex: number): QueryOptions {
+	const selectedBucket = context.getNodeParameter(
+		'couchbaseBucket',
+		itemIndex,
+	) as INodeParameterResourceLocator;
+	const selectedScope = context.getNodeParameter(
+		'couchbaseScope',
+		itemIndex,
+	) as INodeParameterResourceLocator;
+	const options = context.getNodeParameter('queryOptions', itemIndex, {}) as IDataObject;
+
+	const queryOptions: QueryOptions = {};
+
+	// Set the query context if bucket or scope is provided
+	if (selectedBucket.value) {
+		queryOptions.queryContext = `default:${selectedBucket.value}`;
+
+		// Add scope to query context if provided
+		if (selectedScope.value) {
+			queryOptions.queryContext += `.${selectedScope.value}`;
+		}
+	}
+
+	const parameters = getQueryParameters(context, itemIndex);
+	if (parameters) {
+		queryOptions.parameters = parameters;
+	}
+
+	if (options.scanConsistency !== undefined) {
+		queryOptions.scanConsistency = options.scanConsistency as QueryScanConsistency;
+	}
+	if (options.profile !== undefined) {
+		queryOptions.profile = options.profile as QueryProfileMode;
+	}
+	if (options.clientContextId) {
+		queryOptions.clientContextId = options.clientContextId as string;
+	}
+	for (const option of ['adhoc', 'metrics', 'readOnly'] as const) {
+		if (options[option] !== undefined) {
+			queryOptions[option] = options[option] as boolean;
+		}
+	}
+	for (const option of ['timeout', 'maxParallelism', 'scanCap', 'pipelineBatch'] as const) {
+		if (options[option] !== undefined) {
+			queryOptions[option] = options[option] as number;
+		}
+	}
+
+	return queryOptions;
+}
 
 /**
- * Processes search results to remove empty objects and undefined values, then formats them into an array of IDataObject
- * @param rows
+ * Scans a SQL++ statement for the clauses of its outermost query, skipping comments, string literals, escaped
+ * identifiers, and anything in parentheses such as subqueries
+ * @param statement
+ * @returns the statement without comments and trailing semicolons, the words of its outermost query in upper case,
+ * and the parameters it references
  */
-function processSearchResults(rows: any[]): IDataObject[] {
-	const processedData = rows.map((row) =>
-		Object.fromEntries(
-			Object.entries(row).filter(
-				([_, v]) => v !== undefined && !(v && typeof v === 'object' && Object.keys(v).length === 0),
-			),
-		),
-	) as IDataObject[];
+function scanQueryStatement(statement: string): {
+	statement: string;
+	keywords: string[];
+	parameters: string[];
+} {
+	let scannedStatement = '';
+	let word = '';
+	let depth = 0;
+	const keywords: string[] = [];
+	const parameters: string[] = [];
+
+	const endWord = () => {
+		if (word.startsWith('$')) {
+			parameters.push(word);
+		} else if (word && depth === 0) {
+			keywords.push(word.toUpperCase());
+		}
+		word = '';
+	};
+
+	let index = 0;
+	while (index < statement.length) {
+		const char = statement[index];
+		const nextChar = statement[index + 1];
+
+		// Line comments run to the end of the line, which is kept, and block comments to their closing */
+		if (char === '-' && nextChar === '-') {
+			endWord();
+			const end = statement.indexOf('\n', index);
+			index = end === -1 ? statement.length : end;
+			continue;
+		}
+		if (char === '/' && nextChar === '*') {
+			endWord();
+			const end = statement.indexOf('*/', index + 2);
+			index = end === -1 ? statement.length : end + 2;
+			scannedStatement += ' ';
+			continue;
+		}
+
+		if (char === "'" || char === '"' || char === '`') {
+			endWord();
+			let end = index + 1;
+			while (end < statement.length && statement[end] !== char) {
+				end += statement[end] === '\\' ? 2 : 1;
+			}
+			scannedStatement += statement.slice(index, end + 1);
+			index = end + 1;
+			continue;
+		}
+
+		if (/[\w$]/.test(char)) {
+			word += char;
+		} else {
+			endWord();
+			if (char === '(') {
+				depth++;
+			} else if (char === ')') {
+				depth = Math.max(depth - 1, 0);
+			}
+		}
+		scannedStatement += char;
+		index++;
+	}
+	endWord();
+
+	return {
+		statement: scannedStatement.replace(/[\s;]+$/, '').trim(),
+		keywords,
+		parameters,
+	};
+}
+
+/**
+ * Checks that LIMIT and OFFSET clauses can be appended to a SQL++ statement, failing with an error that explains why
+ * not otherwise
+ * @param context
+ * @param itemIndex
+ * @param scannedStatement - the result of scanQueryStatement
+ * @param paginationMode
+ */
+function validateLimitableStatement(
+	context: IExecuteFunctions,
+	itemIndex: number,
+	{ keywords, parameters }: ReturnType<typeof scanQueryStatement>,
+	paginationMode: string,
+): void {
+	const fail = (message: string, description: string) => {
+		throw new NodeOperationError(context.getNode(), message, { description, itemIndex });
+	};
 
-	return processedData.length > 0 ? processedData : [{ message: 'No results found' }];
+	if (keywords[0] !== 'SELECT' && keywords[0] !== 'WITH') {
+		fail(
+			'Only SELECT queries can be limited or paginated.',
+			'Please turn off Limit Results for other statements, or use their own LIMIT clause.',
+		);
+	}
+	if (keywords.some((keyword) => ['UNION', 'INTERSECT', 'EXCEPT'].includes(keyword))) {
+		fail(
+			'Queries combined with UNION, INTERSECT, or EXCEPT cannot be limited or paginated.',
+			'Please wrap the combined query in a subquery, e.g. SELECT RAW r FROM (SELECT ... UNION SELECT ...) AS r ORDER BY ...',
+		);
+	}
+	if (keywords.includes('LIMIT') || keywords.includes('OFFSET')) {
+		fail(
+			'The query already has a LIMIT or OFFSET clause.',
+			'Please remove it from the query and use Max Rows and Page Size instead.',
+		);
+	}
+	if (paginationMode !== QUERY_PAGINATION_MODES.NONE && !keywords.includes('ORDER')) {
+		fail(
+			'Paginated queries need an ORDER BY clause.',
+			'Without ORDER BY the order of the rows is not guaranteed, so pages could repeat or skip rows.',
+		);
+	}
+	if (paginationMode === QUERY_PAGINATION_MODES.KEYSET && !parameters.includes('$lastKey')) {
+		fail(
+			'Keyset pagination needs the query to filter on $lastKey.',
+			'Please add a condition on the key field, e.g. WHERE META().id > $lastKey ORDER BY META().id',
+		);
+	}
 }
 
 /**
- * Transforms JSON search query to proper SDK format by nesting `knn` within a `raw` field
- * @param rawJsonQuery
+ * Runs a SQL++ query with its rows bounded by LIMIT clauses appended to the statement: once with Max Rows as the limit,
+ * or page by page with OFFSET or keyset pagination if selected. The SDK loads each response in full before returning
+ * its rows, so limiting them in the statement is what bounds the size of each response.
+ * @param context
+ * @param cluster
+ * @param statement
+ * @param queryOptions
+ * @param itemIndex
+ * @returns the rows and the metadata of the last query that was run
  */
-function transformRawJsonQueryToValidSearchOptions(rawJsonQuery: any): SearchQueryOptions {
-	const { raw, ...topLevelFields } = rawJsonQuery;
+async function executePaginatedQuery(
+	context: IExecuteFunctions,
+	cluster: Cluster,
+	statement: string,
+	queryOptions: QueryOptions,
+	itemIndex: number,
+): Promise<{ rows: IDataObject[]; meta?: QueryMetaData }> {
+	const paginationMode = context.getNodeParameter(
+		'queryPagination',
+		itemIndex,
+		QUERY_PAGINATION_MODES.NONE,
+	) as string;
+	const maxRows = context.getNodeParameter('queryMaxRows', itemIndex, 0) as number;
 
-	// If raw field is already present, return as is
-	if (raw) {
-		return rawJsonQuery as SearchQueryOptions;
+	if (paginationMode === QUERY_PAGINATION_MODES.NONE && !maxRows) {
+		return await cluster.query(statement, queryOptions);
 	}
 
-	// Create properly formatted SearchQueryOptions
+	// Rows are bounded by appending clauses, so trailing comments and semicolons have to go
+	const scannedStatement = scanQueryStatement(statement);
+	validateLimitableStatement(context, itemIndex, scannedStatement, paginationMode);
+	const baseStatement = scannedStatement.statement;
+
+	if (paginationMode === QUERY_PAGINATION_MODES.NONE) {
+		return await cluster.query(`${baseStatement} LIMIT ${maxRows}`, queryOptions);
+	}
+
+	// All pages are output together, so an unbounded export would have to fit in memory
+	if (!maxRows) {
+		throw new NodeOperationError(context.getNode(), 'Paginated queries need Max Rows.', {
+			description:
+				'Please set Max Rows to the largest number of rows the workflow should handle at once.',
+			itemIndex,
+		});
+	}
+
+	const pageSize = context.getNodeParameter('queryPageSize', itemIndex, 1000) as number;
+	const isKeyset = paginationMode === QUERY_PAGINATION_MODES.KEYSET;
+	const keyField = context.getNodeParameter('queryKeyField', itemIndex, '') as string;
+
+	if (isKeyset && Array.isArray(queryOptions.parameters)) {
+		throw new NodeOperationError(
+			context.getNode(),
+			'Keyset pagination cannot be combined with positional query parameters.',
+			{
+				description:
+					'Keyset pagination binds $lastKey as a named parameter. Please use named parameters.',
+				itemIndex,
+			},
+		);
+	}
+
+	let lastKey = isKeyset
+		? parseValue(context.getNodeParameter('queryStartAfterKey', itemIndex, '') as string)
+		: undefined;
+	let offset = 0;
+
+	const rows: IDataObject[] = [];
+	let meta: QueryMetaData | undefined;
+
+	while (true) {
+		const limit = Math.min(pageSize, maxRows - rows.length);
+		const pageStatement = isKeyset
+			? `${baseStatement} LIMIT ${limit}`
+			: `${baseStatement} LIMIT ${limit} OFFSET ${offset}`;
+		const pageOptions: QueryOptions = isKeyset
+			? { ...queryOptions, parameters: { ...queryOptions.parameters, $lastKey: lastKey } }
+			: queryOptions;
+
+		const page = await cluster.query(pageStatement, pageOptions);
+		for (const row of page.rows) {
+			rows.push(row);
+		}
+		meta = page.meta;
+
+		if (page.rows.length < limit || rows.length >= maxRows) {
+			break;
+		}
+
+		offset += page.rows.length;
+		if (isKeyset) {
+			lastKey = page.rows[page.rows.length - 1][keyField];
+			if (lastKey === undefined) {
+				throw new NodeOperationError(
+					context.getNode(),
+					`Key field "${keyField}" was not found in the rows returned by the query.`,
+					{
+						description:
+							'Please make sure the query selects the key field, e.g. SELECT META().id AS docKey, ...',
+						itemIndex,
+					},
+				);
+			}
+		}
+	}
+
+	return { rows, meta };
+}
+
+/**
+ * Formats the metadata of a SQL++ query result as an output item
+ * @param meta
+ */
+function formatQueryMetaData(meta: QueryMetaData): IDataObject {
 	return {
-		// Place top level fields inside the raw field
-		raw: { ...topLevelFields },
-	} as SearchQueryOptions;
+		queryMetadata: {
+			requestId: meta.requestId,
+			clientContextId: meta.clientContextId,
+			status: meta.status,
+			signature: meta.signature,
+			warnings: meta.warnings.map(({ code, message }) => ({ code, message })),
+			...(meta.metrics ? { metrics: { ...meta.metrics } } : {}),
+			...(meta.profile !== undefined ? { profile: meta.profile } : {}),
+		},
+	};
+}
+
+/**
+ * Builds a lookupIn spec from a spec entry of the node parameters
+ * @param spec
+ */
+function buildLookupInSpec(spec: IDataObject): LookupInSpec {
+	const path = spec.path as string;
+	const options = { xattr: spec.xattr as boolean };
+
+	switch (spec.specType) {
+		case LOOKUP_IN_SPECS.EXISTS:
+			return LookupInSpec.exists(path, options);
+		case LOOKUP_IN_SPECS.COUNT:
+			return LookupInSpec.count(path, options);
+		default:
+			return LookupInSpec.get(path, options);
+	}
+}
+
+/**
+ * Builds a mutateIn spec from a spec entry of the node parameters
+ * @param context
+ * @param itemIndex
+ * @param spec
+ */
+function buildMutateInSpec(
+	context: IExecuteFunctions,
+	itemIndex: number,
+	spec: IDataObject,
+): MutateInSpec {
+	const path = spec.path as string;
+	const value = parseValue(spec.value);
+	const xattr = spec.xattr as boolean;
+	const createPath = spec.createPath as boolean;
+
+	switch (spec.specType) {
+		case MUTATE_IN_SPECS.INSERT:
+			return MutateInSpec.insert(path, value, { createPath, xattr });
+		case MUTATE_IN_SPECS.REPLACE:
+			return MutateInSpec.replace(path, value, { xattr });
+		case MUTATE_IN_SPECS.REMOVE:
+			return MutateInSpec.remove(path, { xattr });
+		case MUTATE_IN_SPECS.ARRAY_APPEND:
+			return MutateInSpec.arrayAppend(path, value, { createPath, xattr });
+		case MUTATE_IN_SPECS.ARRAY_PREPEND:
+			return MutateInSpec.arrayPrepend(path, value, { createPath, xattr });
+		case MUTATE_IN_SPECS.ARRAY_ADD_UNIQUE:
+			return MutateInSpec.arrayAddUnique(path, value, { createPath, xattr });
+		case MUTATE_IN_SPECS.INCREMENT: {
+			// Numeric values are already parsed from JSON, anything else is rejected
+			if (typeof value !== 'number' || !Number.isInteger(value)) {
+				throw new NodeOperationError(
+					context.getNode(),
+					`Invalid increment value: "${spec.value}".`,
+					{
+						description: 'Please provide a whole number to increment the path by, e.g. 1 or -1.',
+						itemIndex,
+					},
+				);
+			}
+			return MutateInSpec.increment(path, value, { createPath, xattr });
+		}
+		default:
+			return MutateInSpec.upsert(path, value, { createPath, xattr });
+	}
 }
 
 /**
- * Retrieves the collection from the Couchbase cluster using the provided parameters
+ * Executes a sub-document operation (lookupIn or mutateIn) for an input item
  * @param context
  * @param cluster
+ * @param operation
+ * @param itemIndex
+ * @param collectionCache
  */
-async function getCollection(context: IExecuteFunctions, cluster: Cluster): Promise<Collection> {
-	const couchbaseBucketName = context.getNodeParameter(
-		'couchbaseBucket',
-		0,
-		'',
-	) as INodeParameterResourceLocator;
-	const couchbaseScopeName = context.getNodeParameter(
-		'couchbaseScope',
-		0,
-		'',
-	) as INodeParameterResourceLocator;
-	const couchbaseCollectionName = context.getNodeParameter(
-		'couchbaseCollection',
-		0,
-		'',
-	) as INodeParameterResourceLocator;
+async function executeSubDocumentOperation(
+	context: IExecuteFunctions,
+	cluster: Cluster,
+	operation: string,
+	itemIndex: number,
+	collectionCache: Map<string, Promise<Collection>>,
+): Promise<IDataObject> {
+	const documentId = context.getNodeParameter('documentId', itemIndex, '') as string;
+	const specsParameter =
+		operation === SUB_DOCUMENT_OPS.LOOKUP_IN ? 'lookupInSpecs' : 'mutateInSpecs';
+	const specs = context.getNodeParameter(`${specsParameter}.specs`, itemIndex, []) as IDataObject[];
 
-	await validateBucketScopeCollection(
-		context,
-		couchbaseBucketName.value as string,
-		couchbaseScopeName.value as string,
-		couchbaseCollectionName.value as string,
+	if (specs.length === 0) {
+		throw new NodeOperationError(context.getNode(), 'At least one spec is required.', {
+			itemIndex,
+		});
+	}
+
+	const collection = await getCollection(context, cluster, itemIndex, collectionCache);
+
+	if (operation === SUB_DOCUMENT_OPS.LOOKUP_IN) {
+		const lookupInResult: LookupInResult = await collection.lookupIn(
+			documentId,
+			specs.map(buildLookupInSpec),
+		);
+		const results = lookupInResult.content.map((entry, index) => ({
+			operation: specs[index].specType,
+			path: specs[index].path,
+			...(entry.error ? { error: entry.error.message } : { value: entry.value }),
+		}));
+		return { id: documentId, cas: lookupInResult.cas.toString(), results };
+	}
+
+	const mutateInResult: MutateInResult = await collection.mutateIn(
+		documentId,
+		specs.map((spec) => buildMutateInSpec(context, itemIndex, spec)),
+		getDurabilityParameter(context, itemIndex),
 	);
+	const results = mutateInResult.content.map((entry, index) => ({
+		operation: specs[index].specType,
+		path: specs[index].path,
+		...(entry.value !== undefined ? { value: entry.value } : {}),
+	}));
+	return { id: documentId, cas: mutateInResult.cas.toString(), results };
+}
+
+/**
+ * Executes a counter or binary operation on a single document using the binary collection API
+ * @param context
+ * @param cluster
+ * @param operation
+ * @param itemIndex
+ * @param collectionCache
+ * @returns IDataObject - the document ID, its CAS value, and for counters the new counter value
+ */
+async function executeCounterOperation(
+	context: IExecuteFunctions,
+	cluster: Cluster,
+	operation: string,
+	itemIndex: number,
+	collectionCache: Map<string, Promise<Collection>>,
+): Promise<IDataObject> {
+	const id = context.getNodeParameter('documentId', itemIndex, '') as string;
+	const durability = getDurabilityParameter(context, itemIndex);
+	const collection = await getCollection(context, cluster, itemIndex, collectionCache);
+
+	if (operation === COUNTER_OPS.INCREMENT || operation === COUNTER_OPS.DECREMENT) {
+		const delta = context.getNodeParameter('counterDelta', itemIndex, 1) as number;
+		const createIfMissing = context.getNodeParameter(
+			'counterCreateIfMissing',
+			itemIndex,
+			true,
+		) as boolean;
+		const initial = createIfMissing
+			? (context.getNodeParameter('counterInitialValue', itemIndex, 0) as number)
+			: undefined;
+		// The expiry only applies when the counter is created
+		const expiry = getExpiryParameter(context, itemIndex);
+
+		const counterOptions = { initial, expiry, ...durability };
+		const counterResult: CounterResult =
+			operation === COUNTER_OPS.INCREMENT
+				? await collection.binary().increment(id, delta, counterOptions)
+				: await collection.binary().decrement(id, delta, counterOptions);
 
+		return { id, value: counterResult.value, cas: counterResult.cas.toString() };
+	}
+
+	const value = context.getNodeParameter('binaryValue', itemIndex, '') as string;
+	const encoding = context.getNodeParameter(
+		'binaryEncoding',
+		itemIndex,
+		BINARY_ENCODINGS.UTF8,
+	) as BufferEncoding;
+	const cas = getCasParameter(context, itemIndex);
+
+	const bytes = Buffer.from(value, encoding);
+	const mutationResult: MutationResult =
+		operation === COUNTER_OPS.APPEND
+			? await collection.binary().append(id, bytes, { cas, ...durability })
+			: await collection.binary().prepend(id, bytes, { cas, ...durability });
+
+	return { id, cas: mutationResult.cas.toString() };
+}
+
+/**
+ * Pops the last value of an array document, or reports that there is nothing to pop
+ * @param collection
+ * @param id
+ * @returns IDataObject - the popped value and whether the array was empty
+ */
+async function popArrayDocument(collection: Collection, id: string): Promise<IDataObject> {
 	try {
-		return cluster
-			.bucket(couchbaseBucketName.value as string)
-			.scope(couchbaseScopeName.value as string)
-			.collection(couchbaseCollectionName.value as string);
+		// The queue pops from the end of the array with a CAS retry loop, which is also how a list pops
+		return { value: await new CouchbaseQueue(collection, id).pop(), empty: false };
 	} catch (error) {
+		// The SDK reports an empty or missing array with a generic error, so check for that explicitly
+		const size = await new CouchbaseQueue(collection, id).size().catch((sizeError) => {
+			if (sizeError instanceof DocumentNotFoundError) {
+				return 0;
+			}
+			throw error;
+		});
+		if (size === 0) {
+			return { value: null, empty: true };
+		}
+		throw error;
+	}
+}
+
+/**
+ * Executes an operation on a list, map, set, or queue stored in a single document
+ * @param context
+ * @param cluster
+ * @param operation
+ * @param itemIndex
+ * @param collectionCache
+ * @returns IDataObject - the document ID and the result of the operation
+ */
+async function executeDataStructureOperation(
+	context: IExecuteFunctions,
+	cluster: Cluster,
+	operation: string,
+	itemIndex: number,
+	collectionCache: Map<string, Promise<Collection>>,
+): Promise<IDataObject> {
+	const id = context.getNodeParameter('documentId', itemIndex, '') as string;
+	const collection = await getCollection(context, cluster, itemIndex, collectionCache);
+	const getIndex = () => context.getNodeParameter('dataStructureIndex', itemIndex, 0) as number;
+	const getKey = () => context.getNodeParameter('dataStructureKey', itemIndex, '') as string;
+	const getValue = () =>
+		parseValue(context.getNodeParameter('dataStructureValue', itemIndex, '')) as
+			IDataObject | GenericValue;
+
+	switch (operation) {
+		case DATA_STRUCTURE_OPS.LIST_PUSH: {
+			const value = getValue();
+			await collection.list(id).push(value);
+			return { id, value };
+		}
+		case DATA_STRUCTURE_OPS.LIST_POP:
+		case DATA_STRUCTURE_OPS.QUEUE_POP:
+			return { id, ...(await popArrayDocument(collection, id)) };
+		case DATA_STRUCTURE_OPS.LIST_GET_AT: {
+			const index = getIndex();
+			return { id, index, value: await collection.list(id).getAt(index) };
+		}
+		case DATA_STRUCTURE_OPS.LIST_REMOVE_AT: {
+			const index = getIndex();
+			await collection.list(id).removeAt(index);
+			return { id, index };
+		}
+		case DATA_STRUCTURE_OPS.MAP_GET: {
+			const key = getKey();
+			return { id, key, value: await collection.map(id).get(key) };
+		}
+		case DATA_STRUCTURE_OPS.MAP_SET: {
+			const key = getKey();
+			const value = getValue();
+			await collection.map(id).set(key, value);
+			return { id, key, value };
+		}
+		case DATA_STRUCTURE_OPS.MAP_REMOVE: {
+			const key = getKey();
+			await collection.map(id).remove(key);
+			return { id, key };
+		}
+		case DATA_STRUCTURE_OPS.MAP_KEYS:
+			return { id, keys: await collection.map(id).keys() };
+		case DATA_STRUCTURE_OPS.SET_ADD: {
+			const value = getValue();
+			return { id, value, added: await collection.set(id).add(value) };
+		}
+		case DATA_STRUCTURE_OPS.SET_CONTAINS: {
+			const value = getValue();
+			return { id, value, contains: await collection.set(id).contains(value) };
+		}
+		case DATA_STRUCTURE_OPS.SET_REMOVE: {
+			const value = getValue();
+			await collection.set(id).remove(value);
+			return { id, value };
+		}
+		case DATA_STRUCTURE_OPS.QUEUE_PUSH: {
+			const value = getValue();
+			await collection.queue(id).push(value);
+			return { id, value };
+		}
+		case DATA_STRUCTURE_OPS.QUEUE_SIZE: {
+			const size = await collection
+				.queue(id)
+				.size()
+				.catch((error) => {
+					// A queue that was never pushed to is empty
+					if (error instanceof DocumentNotFoundError) {
+						return 0;
+					}
+					throw error;
+				});
+			return { id, size };
+		}
+		default:
+			throw new NodeOperationError(
+				context.getNode(),
+				`The operation "${operation}" is not supported for data structures.`,
+				{ itemIndex },
+			);
+	}
+}
+
+/**
+ * Reads the value at a dot separated path, where numeric segments index into arrays
+ * @param value
+ * @param path
+ */
+function getValueAtPath(value: unknown, path: string): unknown {
+	return path
+		.split('.')
+		.reduce<unknown>(
+			(current, segment) =>
+				current !== null && typeof current === 'object'
+					? (current as IDataObject)[segment]
+					: undefined,
+			value,
+		);
+}
+
+/**
+ * Replaces string values of the form `$steps.<stepName>.<path>` with the value at that path in the result
+ * of an earlier transaction step. Other values are returned unchanged.
+ * @param context
+ * @param value
+ * @param stepResults - results of the steps run so far, keyed by step name
+ */
+function resolveStepReferences(
+	context: IExecuteFunctions,
+	value: unknown,
+	stepResults: Map<string, IDataObject>,
+): unknown {
+	if (Array.isArray(value)) {
+		return value.map((entry) => resolveStepReferences(context, entry, stepResults));
+	}
+
+	if (value !== null && typeof value === 'object') {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, entry]) => [
+				key,
+				resolveStepReferences(context, entry, stepResults),
+			]),
+		);
+	}
+
+	const reference = typeof value === 'string' ? /^\$steps\.([^.]+)(?:\.(.+))?$/.exec(value) : null;
+	if (!reference) {
+		return value;
+	}
+
+	const [, stepName, path] = reference;
+	const stepResult = stepResults.get(stepName);
+	if (!stepResult) {
 		throw new NodeOperationError(
 			context.getNode(),
-			`Could not access collection: ${error.message}.`,
+			`Step "${stepName}" referenced by "${value}" has not run yet.`,
+		);
+	}
+
+	const resolved = path ? getValueAtPath(stepResult, path) : stepResult;
+	if (resolved === undefined) {
+		throw new NodeOperationError(
+			context.getNode(),
+			`Reference "${value}" did not match a value in step "${stepName}".`,
+		);
+	}
+
+	return resolved;
+}
+
+/**
+ * Parses the value of a transaction step and resolves its references to earlier steps
+ * @param context
+ * @param value - JSON string or object from the step parameters
+ * @param stepResults
+ */
+function resolveStepValue(
+	context: IExecuteFunctions,
+	value: unknown,
+	stepResults: Map<string, IDataObject>,
+): unknown {
+	return resolveStepReferences(
+		context,
+		typeof value === 'string' ? parseValue(value) : value,
+		stepResults,
+	);
+}
+
+/**
+ * Converts the durability level option of a transaction into the SDK durability level
+ * @param durabilityLevel
+ */
+function getTransactionDurabilityLevel(durabilityLevel: string): DurabilityLevel {
+	// Unlike single mutations, transactions default to majority durability, so "none" has to be explicit
+	return getDurabilityOptions(durabilityLevel)?.durabilityLevel ?? DurabilityLevel.None;
+}
+
+/**
+ * Formats the document returned by a transaction step
+ * @param stepType
+ * @param document
+ */
+function formatTransactionDocument(stepType: string, document: TransactionGetResult): IDataObject {
+	return {
+		operation: stepType,
+		id: document.id.key,
+		content: document.content,
+		cas: document.cas.toString(),
+	};
+}
+
+/**
+ * Runs the configured steps inside a single Couchbase transaction.
+ * Every step sees the documents read and written by the steps before it. If a step fails, the transaction is
+ * rolled back and none of its changes become visible.
+ * @param context
+ * @param cluster
+ * @param itemIndex
+ * @param collectionCache
+ * @returns IDataObject - the transaction ID, its status, and the result of every step
+ */
+async function executeTransaction(
+	context: IExecuteFunctions,
+	cluster: Cluster,
+	itemIndex: number,
+	collectionCache: Map<string, Promise<Collection>>,
+): Promise<IDataObject> {
+	const steps = context.getNodeParameter('transactionSteps.steps', itemIndex, []) as IDataObject[];
+	if (steps.length === 0) {
+		throw new NodeOperationError(context.getNode(), 'At least one transaction step is required.', {
+			itemIndex,
+		});
+	}
+
+	const couchbaseBucketName = context.getNodeParameter('couchbaseBucket', itemIndex, '', {
+		extractValue: true,
+	}) as string;
+	const couchbaseScopeName = context.getNodeParameter('couchbaseScope', itemIndex, '', {
+		extractValue: true,
+	}) as string;
+	const couchbaseCollectionName = context.getNodeParameter('couchbaseCollection', itemIndex, '', {
+		extractValue: true,
+	}) as string;
+
+	const transactionOptions = context.getNodeParameter(
+		'transactionOptions',
+		itemIndex,
+		{},
+	) as IDataObject;
+	const durabilityLevel = transactionOptions.durabilityLevel as string | undefined;
+
+	const getStepCollection = async (step: IDataObject) =>
+		await getCachedCollection(
+			context,
+			cluster,
+			(step.bucket as string) || couchbaseBucketName,
+			(step.scope as string) || couchbaseScopeName,
+			(step.collection as string) || couchbaseCollectionName,
+			collectionCache,
+		);
+
+	let stepOutputs: IDataObject[] = [];
+
+	try {
+		const transactionResult = await cluster.transactions().run(
+			async (attempt) => {
+				// A transaction can be retried from scratch, so all state is reset on every attempt
+				const stepResults = new Map<string, IDataObject>();
+				const stepDocuments = new Map<string, TransactionGetResult>();
+				stepOutputs = [];
+
+				for (const step of steps) {
+					const stepType = step.stepType as string;
+					const stepName = ((step.stepName as string) ?? '').trim();
+					const documentId = ((step.documentId as string) ?? '').trim();
+					let document: TransactionGetResult | undefined;
+					let stepOutput: IDataObject;
+
+					if (stepType === TRANSACTION_STEP_TYPES.QUERY) {
+						const parameters = resolveStepValue(context, step.parameters ?? '{}', stepResults);
+						const queryResult = await attempt.query(step.query as string, {
+							parameters: Array.isArray(parameters)
+								? parameters
+								: Object.fromEntries(
+										Object.entries((parameters as IDataObject) ?? {}).map(([name, value]) => [
+											name.startsWith('$') ? name : `$${name}`,
+											value,
+										]),
+									),
+							...(couchbaseBucketName && couchbaseScopeName
+								? { scope: cluster.bucket(couchbaseBucketName).scope(couchbaseScopeName) }
+								: {}),
+						});
+
+						if (step.requireRows && queryResult.rows.length === 0) {
+							throw new NodeOperationError(
+								context.getNode(),
+								`Query step${stepName ? ` "${stepName}"` : ''} returned no rows.`,
+							);
+						}
+						stepOutput = { operation: stepType, rows: queryResult.rows };
+					} else if (stepType === TRANSACTION_STEP_TYPES.INSERT) {
+						const collection = await getStepCollection(step);
+						document = await attempt.insert(
+							collection,
+							documentId,
+							resolveStepValue(context, step.value ?? '{}', stepResults),
+						);
+						stepOutput = formatTransactionDocument(stepType, document);
+					} else {
+						const sourceStep = ((step.sourceStep as string) ?? '').trim();
+						if (sourceStep && stepType !== TRANSACTION_STEP_TYPES.GET) {
+							document = stepDocuments.get(sourceStep);
+							if (!document) {
+								throw new NodeOperationError(
+									context.getNode(),
+									`Step "${sourceStep}" did not read or write a document before this step.`,
+								);
+							}
+						} else {
+							document = await attempt.get(await getStepCollection(step), documentId);
+						}
+
+						if (stepType === TRANSACTION_STEP_TYPES.REPLACE) {
+							document = await attempt.replace(
+								document,
+								resolveStepValue(context, step.value ?? '{}', stepResults),
+							);
+							stepOutput = formatTransactionDocument(stepType, document);
+						} else if (stepType === TRANSACTION_STEP_TYPES.REMOVE) {
+							await attempt.remove(document);
+							stepOutput = { operation: stepType, id: document.id.key };
+							if (sourceStep) {
+								stepDocuments.delete(sourceStep);
+							}
+							document = undefined;
+						} else {
+							stepOutput = formatTransactionDocument(stepType, document);
+						}
+					}
+
+					if (stepName) {
+						stepResults.set(stepName, stepOutput);
+						if (document) {
+							stepDocuments.set(stepName, document);
+						}
+						stepOutput = { stepName, ...stepOutput };
+					}
+					stepOutputs.push(stepOutput);
+				}
+			},
 			{
-				description:
-					'Please ensure the selected bucket, scope, and collection exist and the credentials have permissions.',
+				...(durabilityLevel
+					? { durabilityLevel: getTransactionDurabilityLevel(durabilityLevel) }
+					: {}),
+				...(transactionOptions.timeout ? { timeout: transactionOptions.timeout as number } : {}),
 			},
 		);
+
+		return {
+			transactionId: transactionResult.transactionId,
+			status: 'committed',
+			unstagingComplete: transactionResult.unstagingComplete,
+			steps: stepOutputs,
+		};
+	} catch (error) {
+		const isAmbiguous = error instanceof TransactionCommitAmbiguousError;
+		const cause = error instanceof TransactionFailedError && error.cause ? error.cause : error;
+		const message = isAmbiguous
+			? `Transaction commit is ambiguous: ${error.message}.`
+			: `Transaction was rolled back: ${mapCouchbaseError(context, cause, itemIndex).message}`;
+
+		if (context.continueOnFail()) {
+			return { status: isAmbiguous ? 'ambiguous' : 'rolledBack', error: message };
+		}
+
+		throw new NodeOperationError(context.getNode(), message, {
+			description: isAmbiguous
+				? 'The transaction may or may not have been committed. Read the affected documents to check their state before retrying.'
+				: error instanceof TransactionExpiredError
+					? 'The transaction did not complete within its timeout. Increase the timeout or reduce the number of steps.'
+					: 'None of the changes made by the transaction were applied.',
+			itemIndex,
+		});
 	}
 }
 
@@ -123,14 +2719,29 @@ export class Couchbase implements INodeType {
 		name: 'couchbase',
 		icon: { light: 'file:../icons/couchbase.svg', dark: 'file:../icons/couchbase.dark.svg' },
 		group: ['input'],
-		version: [1, 2],
+		version: [1, 2, 3, 4],
 		subtitle: '={{$parameter["resource"] + ": " + $parameter["operation"]}}',
 		description:
 			'Couchbase node to insert, update, retrieve, and delete data from a Couchbase database using KV, Query and Search services',
 		defaults: {
 			name: 'Couchbase',
 		},
-		inputs: ['main'],
+		// Vector and hybrid searches can embed their query text with a connected embeddings model
+		inputs: `={{
+			((parameters) => {
+				const inputs = [{ displayName: "", type: "${NodeConnectionTypes.Main}" }];
+				if (
+					parameters?.resource === "search" &&
+					(parameters?.operation ?? "retrieve") === "retrieve" &&
+					["vectorSearch", "hybridSearch"].includes(parameters?.searchType) &&
+					!parameters?.advancedMode &&
+					parameters?.vectorSource === "embeddings"
+				) {
+					inputs.push({ displayName: "Embedding", type: "${NodeConnectionTypes.AiEmbedding}", required: true, maxConnections: 1 });
+				}
+				return inputs;
+			})($parameter)
+		}}`,
 		outputs: ['main'],
 		credentials: [
 			{
@@ -151,134 +2762,176 @@ export class Couchbase implements INodeType {
 	};
 
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
-		const operation = this.getNodeParameter('operation', 0);
+		const items = this.getInputData();
+		const operation = this.getNodeParameter('operation', 0) as string;
 
 		const { cluster } = await connectToCouchbase(this);
 
 		const returnItems: INodeExecutionData[] = [];
-		let responseData: IDataObject | IDataObject[] = [];
-
-		if (operation === DOCUMENT_OPS.CREATE) {
-			const documentToInsert = this.getNodeParameter('documentValue', 0, '') as string;
-			const isSpecifyDocumentId = this.getNodeParameter('isSpecifyDocumentId', 0, false) as boolean;
-
-			let id: string;
-			if (!isSpecifyDocumentId) {
-				id = uuid.v4();
-			} else {
-				const specifiedDocumentId = this.getNodeParameter('documentId', 0, '') as string;
-				id = specifiedDocumentId.trim();
-			}
-			const collection = await getCollection(this, cluster);
-			await collection.insert(id, documentToInsert);
-
-			responseData = [{ id: id, value: documentToInsert }];
-		} else if (operation === DOCUMENT_OPS.UPSERT) {
-			const newDocumentValue = this.getNodeParameter('documentValue', 0, '') as string;
-			const id = this.getNodeParameter('documentId', 0, '') as string;
-			const collection = await getCollection(this, cluster);
-			await collection.upsert(id, newDocumentValue);
-			responseData = [{ id, value: newDocumentValue }];
-		} else if (operation === DOCUMENT_OPS.DELETE) {
-			const documentId = this.getNodeParameter('documentId', 0, '') as string;
-			const collection = await getCollection(this, cluster);
-			const removeResult: MutationResult = await collection.remove(documentId);
-			responseData = [{ id: documentId, value: removeResult }];
-		} else if (operation === DOCUMENT_OPS.READ) {
-			const documentId = this.getNodeParameter('documentId', 0, '') as string;
-			const collection = await getCollection(this, cluster);
-			const getResult: GetResult = await collection.get(documentId);
-			const responseJson = JSON.stringify(getResult.content);
-			responseData = [{ id: documentId, value: responseJson }];
-		} else if (operation === DOCUMENT_OPS.QUERY) {
-			const query = this.getNodeParameter('query', 0, '') as string;
-			const selectedBucket = this.getNodeParameter(
-				'couchbaseBucket',
-				0,
-			) as INodeParameterResourceLocator;
-			const selectedScope = this.getNodeParameter(
-				'couchbaseScope',
-				0,
-			) as INodeParameterResourceLocator;
-
-			// Create query options object if bucket or scope is provided
-			const queryOptions: any = {};
-			if (selectedBucket.value) {
-				queryOptions.queryContext = `default:${selectedBucket.value}`;
-
-				// Add scope to query context if provided
-				if (selectedScope.value) {
-					queryOptions.queryContext += `.${selectedScope.value}`;
-				}
-			}
+		const collectionCache = new Map<string, Promise<Collection>>();
 
-			const queryResult: QueryResult = await cluster.query(query, queryOptions);
-			responseData = queryResult.rows;
-		} else if (operation === SEARCH_OPS.RETRIEVE) {
-			const isAdvancedMode = this.getNodeParameter('advancedMode', 0) as boolean;
-			const indexName = this.getNodeParameter('indexName', 0, '', {
-				extractValue: true,
-			}) as string;
-			if (isAdvancedMode) {
-				const rawQuery = this.getNodeParameter('rawQuery', 0) as string;
-
-				const transformedQuerySearchOptions = transformRawJsonQueryToValidSearchOptions(rawQuery);
-				const searchResult = await cluster.searchQuery(
-					indexName,
-					SearchQuery.matchNone(),
-					transformedQuerySearchOptions,
-				);
+		const isBatchMode =
+			KEY_VALUE_OPS.includes(operation) &&
+			(this.getNodeParameter('batchMode', 0, false) as boolean);
+		if (isBatchMode) {
+			const concurrency = this.getNodeParameter('batchConcurrency', 0, 10) as number;
+			const results = await runWithConcurrency(items.length, concurrency, async (itemIndex) =>
+				executeKeyValueItem(this, cluster, operation, itemIndex, collectionCache),
+			);
 
-				responseData = processSearchResults(searchResult.rows);
-			} else {
-				const fieldsToReturn = this.getNodeParameter('fieldsToReturn', 0) as string;
-				const fieldsArray = fieldsToReturn
-					? fieldsToReturn.split(',').map((field) => field.trim())
-					: [];
-				const searchQuery = this.getNodeParameter('searchQuery', 0) as string;
-				const includeLocations = this.getNodeParameter('includeLocations', 0) as boolean;
-				const resultsLimit = this.getNodeParameter('resultsLimit', 0) as number;
-
-				const searchOptions = {
-					limit: resultsLimit,
-					fields: fieldsArray,
-					includeLocations,
-				};
-				const searchResult = await cluster.searchQuery(
-					indexName,
-					SearchQuery.match(searchQuery),
-					searchOptions,
-				);
+			results.forEach((result, itemIndex) => {
+				let json: IDataObject;
+				let binary: IBinaryKeyData | undefined;
+				if (result.status === 'fulfilled') {
+					json = { ...result.value.json, success: true };
+					binary = result.value.binary;
+				} else {
+					// Key-Value error contexts carry the key of the failed document
+					const documentId = result.reason.context?.key as string | undefined;
+					json = {
+						...(documentId ? { id: documentId } : {}),
+						success: false,
+						error: mapCouchbaseError(this, result.reason, itemIndex).message,
+					};
+				}
+				returnItems.push({ json, ...(binary ? { binary } : {}), pairedItem: { item: itemIndex } });
+			});
 
-				responseData = processSearchResults(searchResult.rows);
-			}
-		} else if (operation === SEARCH_OPS.CREATE_INDEX) {
-			const indexDefinition = this.getNodeParameter('indexDefinition', 0);
-			await cluster.searchIndexes().upsertIndex(indexDefinition as ISearchIndex);
-			responseData = [{ message: 'Index created successfully' }];
+			return [returnItems];
 		}
 
-		const items = this.getInputData();
-		const itemData = generatePairedItemData(items.length);
+		// Older node versions run these operations with the parameters of the first item and pair the output with all items
+		const runsOnce = this.getNode().typeVersion < 4 && RUN_ONCE_BEFORE_V4_OPS.includes(operation);
+		const itemCount = runsOnce ? 1 : items.length;
 
-		const executionData = this.helpers.constructExecutionMetaData(
-			this.helpers.returnJsonArray(responseData),
-			{ itemData },
-		);
+		for (let itemIndex = 0; itemIndex < itemCount; itemIndex++) {
+			const pairedItem: IPairedItemData | IPairedItemData[] = runsOnce
+				? items.map((_, item) => ({ item }))
+				: { item: itemIndex };
+			let responseData: IDataObject | IDataObject[] = [];
+			// Set instead of responseData by operations that output binary data
+			let responseItems: INodeExecutionData[] | undefined;
 
-		returnItems.push(...executionData);
+			try {
+				if (KEY_VALUE_OPS.includes(operation)) {
+					responseItems = [
+						await executeKeyValueItem(this, cluster, operation, itemIndex, collectionCache),
+					];
+				} else if (
+					operation === SUB_DOCUMENT_OPS.LOOKUP_IN ||
+					operation === SUB_DOCUMENT_OPS.MUTATE_IN
+				) {
+					responseData = [
+						await executeSubDocumentOperation(this, cluster, operation, itemIndex, collectionCache),
+					];
+				} else if ((Object.values(COUNTER_OPS) as string[]).includes(operation)) {
+					responseData = [
+						await executeCounterOperation(this, cluster, operation, itemIndex, collectionCache),
+					];
+				} else if ((Object.values(DATA_STRUCTURE_OPS) as string[]).includes(operation)) {
+					responseData = [
+						await executeDataStructureOperation(
+							this,
+							cluster,
+							operation,
+							itemIndex,
+							collectionCache,
+						),
+					];
+				} else if (operation === TRANSACTION_OPS.RUN) {
+					responseData = [await executeTransaction(this, cluster, itemIndex, collectionCache)];
+				} else if (operation === DOCUMENT_OPS.GET_MANY) {
+					responseData = await executeGetMany(this, cluster, itemIndex, collectionCache);
+				} else if (operation === DOCUMENT_OPS.QUERY) {
+					const query = this.getNodeParameter('query', itemIndex, '') as string;
+					const queryOptions = getQueryOptions(this, itemIndex);
+					const includeMetadata = this.getNodeParameter(
+						'queryOptions.includeMetadata',
+						itemIndex,
+						false,
+					) as boolean;
+
+					const limitResults = this.getNodeParameter('limitResults', itemIndex, false) as boolean;
+
+					const queryResult: { rows: IDataObject[]; meta?: QueryMetaData } = limitResults
+						? await executePaginatedQuery(this, cluster, query, queryOptions, itemIndex)
+						: await cluster.query(query, queryOptions);
+					responseData =
+						includeMetadata && queryResult.meta
+							? [...queryResult.rows, formatQueryMetaData(queryResult.meta)]
+							: queryResult.rows;
+				} else if (operation === SEARCH_OPS.RETRIEVE) {
+					const isAdvancedMode = this.getNodeParameter('advancedMode', itemIndex) as boolean;
+					const indexName = this.getNodeParameter('indexName', itemIndex, '', {
+						extractValue: true,
+					}) as string;
+					if (isAdvancedMode) {
+						const rawQuery = this.getNodeParameter('rawQuery', itemIndex) as string;
+
+						const transformedQuerySearchOptions =
+							transformRawJsonQueryToValidSearchOptions(rawQuery);
+						const searchResult = await runSearch(
+							this,
+							cluster,
+							itemIndex,
+							indexName,
+							SearchRequest.create(SearchQuery.matchNone()),
+							transformedQuerySearchOptions,
+						);
+
+						responseData = processSearchResults(searchResult);
+					} else {
+						const includeMetadata = this.getNodeParameter(
+							'searchOptions.includeMetadata',
+							itemIndex,
+							false,
+						) as boolean;
+						const searchType = this.getNodeParameter(
+							'searchType',
+							itemIndex,
+							SEARCH_TYPES.SEARCH_FULL_TEXT,
+						) as string;
+						const searchRequest =
+							searchType === SEARCH_TYPES.SEARCH_FULL_TEXT
+								? SearchRequest.create(buildSearchQuery(this, itemIndex))
+								: await buildVectorSearchRequest(this, itemIndex, searchType);
+						const searchResult = await runSearch(
+							this,
+							cluster,
+							itemIndex,
+							indexName,
+							searchRequest,
+							getSearchOptions(this, itemIndex),
+						);
+
+						responseData = processSearchResults(searchResult, includeMetadata);
+					}
+				} else if (SEARCH_INDEX_OPS.includes(operation)) {
+					responseData = await executeSearchIndexOperation(this, cluster, operation, itemIndex);
+				} else if (operation === SEARCH_OPS.CREATE_INDEX) {
+					const indexDefinition = this.getNodeParameter('indexDefinition', itemIndex);
+					await getSearchIndexManager(this, cluster, itemIndex).upsertIndex(
+						indexDefinition as ISearchIndex,
+					);
+					responseData = [{ message: 'Index created successfully' }];
+				}
+			} catch (error) {
+				const nodeError = mapCouchbaseError(this, error, itemIndex);
+				if (this.continueOnFail()) {
+					returnItems.push({ json: { error: nodeError.message }, pairedItem });
+					continue;
+				}
+				throw nodeError;
+			}
+
+			const executionData = this.helpers.constructExecutionMetaData(
+				responseItems ?? this.helpers.returnJsonArray(responseData),
+				{ itemData: pairedItem },
+			);
+
+			returnItems.push(...executionData);
+		}
 
 		return [returnItems];
 	}
 }
-
-/**
- * Generates an array of paired item data
- * @param length
- * @returns IPairedItemData[] - array containing paired item data
- */
-function generatePairedItemData(length: number): IPairedItemData[] {
-	return Array.from({ length }, (_, item) => ({
-		item,
-	}));
-}
@@ -6,10 +6,16 @@ import type {
 	NodePropertyTypes,
 } from 'n8n-workflow';
 
+import { DURABILITY_LEVELS, durabilityFields } from '@utils/couchbase/durability';
+
 // Define operation constants
 const RESOURCE = {
 	DOCUMENT: 'document',
+	SUB_DOCUMENT: 'subDocument',
+	COUNTER: 'counter',
+	DATA_STRUCTURE: 'dataStructure',
 	SEARCH: 'search',
+	TRANSACTION: 'transaction',
 } as const;
 
 // Advanced display option helper function that can handle multiple conditions
@@ -119,17 +125,309 @@ export const DOCUMENT_OPS = {
 	QUERY: 'query',
 	READ: 'read',
 	UPSERT: 'upsert',
+	REPLACE: 'replace',
 	DELETE: 'delete',
+	TOUCH: 'touch',
+	GET_AND_TOUCH: 'getAndTouch',
+	EXISTS: 'exists',
+	GET_MANY: 'getMany',
+} as const;
+
+export const SUB_DOCUMENT_OPS = {
+	LOOKUP_IN: 'lookupIn',
+	MUTATE_IN: 'mutateIn',
+} as const;
+
+export const COUNTER_OPS = {
+	INCREMENT: 'increment',
+	DECREMENT: 'decrement',
+	APPEND: 'append',
+	PREPEND: 'prepend',
+} as const;
+
+// Data structure types backed by a single document
+export const DATA_STRUCTURE_TYPES = {
+	LIST: 'list',
+	MAP: 'map',
+	SET: 'set',
+	QUEUE: 'queue',
+} as const;
+
+export const DATA_STRUCTURE_OPS = {
+	LIST_PUSH: 'listPush',
+	LIST_POP: 'listPop',
+	LIST_GET_AT: 'listGetAt',
+	LIST_REMOVE_AT: 'listRemoveAt',
+	MAP_GET: 'mapGet',
+	MAP_SET: 'mapSet',
+	MAP_REMOVE: 'mapRemove',
+	MAP_KEYS: 'mapKeys',
+	SET_ADD: 'setAdd',
+	SET_CONTAINS: 'setContains',
+	SET_REMOVE: 'setRemove',
+	QUEUE_PUSH: 'queuePush',
+	QUEUE_POP: 'queuePop',
+	QUEUE_SIZE: 'queueSize',
+} as const;
+
+export const TRANSACTION_OPS = {
+	RUN: 'run',
+} as const;
+
+// Document operations that are executed as Key-Value calls against a single collection
+export const KEY_VALUE_OPS: string[] = [
+	DOCUMENT_OPS.CREATE,
+	DOCUMENT_OPS.READ,
+	DOCUMENT_OPS.UPSERT,
+	DOCUMENT_OPS.REPLACE,
+	DOCUMENT_OPS.DELETE,
+	DOCUMENT_OPS.TOUCH,
+	DOCUMENT_OPS.GET_AND_TOUCH,
+	DOCUMENT_OPS.EXISTS,
+];
+
+// Operations that need a bucket, scope, and collection
+const COLLECTION_OPS: string[] = [
+	...KEY_VALUE_OPS,
+	DOCUMENT_OPS.GET_MANY,
+	SUB_DOCUMENT_OPS.LOOKUP_IN,
+	SUB_DOCUMENT_OPS.MUTATE_IN,
+	COUNTER_OPS.INCREMENT,
+	COUNTER_OPS.DECREMENT,
+	COUNTER_OPS.APPEND,
+	COUNTER_OPS.PREPEND,
+	...Object.values(DATA_STRUCTURE_OPS),
+	TRANSACTION_OPS.RUN,
+];
+
+// Operations that mutate a document and accept a durability requirement
+const DURABILITY_OPS: string[] = [
+	DOCUMENT_OPS.CREATE,
+	DOCUMENT_OPS.UPSERT,
+	DOCUMENT_OPS.REPLACE,
+	DOCUMENT_OPS.DELETE,
+	DOCUMENT_OPS.TOUCH,
+	SUB_DOCUMENT_OPS.MUTATE_IN,
+	COUNTER_OPS.INCREMENT,
+	COUNTER_OPS.DECREMENT,
+	COUNTER_OPS.APPEND,
+	COUNTER_OPS.PREPEND,
+];
+
+// Document expiry types
+export const EXPIRY_TYPES = {
+	NONE: 'none',
+	DURATION: 'duration',
+	DATE: 'date',
+} as const;
+
+// Operations that set the expiry of a document
+const EXPIRY_OPS: string[] = [
+	DOCUMENT_OPS.CREATE,
+	DOCUMENT_OPS.UPSERT,
+	DOCUMENT_OPS.REPLACE,
+	DOCUMENT_OPS.TOUCH,
+	DOCUMENT_OPS.GET_AND_TOUCH,
+	COUNTER_OPS.INCREMENT,
+	COUNTER_OPS.DECREMENT,
+];
+
+// Where a Read fetches the document from
+export const REPLICA_READ_MODES = {
+	ACTIVE: 'active',
+	ANY_REPLICA: 'anyReplica',
+	ALL_REPLICAS: 'allReplicas',
+} as const;
+
+// Where the file metadata of binary documents is stored
+export const BINARY_METADATA_STORAGE = {
+	XATTR: 'xattr',
+	DOCUMENT: 'document',
+} as const;
+
+// Encodings of the bytes appended or prepended to a binary document
+export const BINARY_ENCODINGS = {
+	UTF8: 'utf8',
+	BASE64: 'base64',
+} as const;
+
+// Ways of generating the ID of a document to create
+export const DOCUMENT_ID_STRATEGIES = {
+	UUID_V4: 'uuidV4',
+	UUID_V7: 'uuidV7',
+	ULID: 'ulid',
+	TEMPLATE: 'template',
+	SEQUENCE: 'sequence',
+} as const;
+
+// What Create does when a document with the same ID already exists
+export const IF_DOCUMENT_EXISTS = {
+	FAIL: 'fail',
+	SKIP: 'skip',
+	OVERWRITE: 'overwrite',
+	MERGE_SHALLOW: 'mergeShallow',
+	MERGE_DEEP: 'mergeDeep',
+} as const;
+
+// Formats a document is written and read in, each backed by an SDK transcoder
+export const DOCUMENT_FORMATS = {
+	JSON: 'json',
+	RAW_JSON: 'rawJson',
+	RAW_STRING: 'rawString',
+	RAW_BINARY: 'rawBinary',
+} as const;
+
+// Transaction step types
+export const TRANSACTION_STEP_TYPES = {
+	GET: 'get',
+	INSERT: 'insert',
+	REPLACE: 'replace',
+	REMOVE: 'remove',
+	QUERY: 'query',
+} as const;
+
+// SQL++ query pagination modes
+export const QUERY_PAGINATION_MODES = {
+	NONE: 'none',
+	OFFSET: 'offset',
+	KEYSET: 'keyset',
+} as const;
+
+// Types a SQL++ query parameter value is converted to
+export const QUERY_PARAMETER_TYPES = {
+	STRING: 'string',
+	NUMBER: 'number',
+	BOOLEAN: 'boolean',
+	JSON: 'json',
+} as const;
+
+// Sub-document spec types
+export const LOOKUP_IN_SPECS = {
+	GET: 'get',
+	EXISTS: 'exists',
+	COUNT: 'count',
+} as const;
+
+export const MUTATE_IN_SPECS = {
+	INSERT: 'insert',
+	UPSERT: 'upsert',
+	REPLACE: 'replace',
+	REMOVE: 'remove',
+	ARRAY_APPEND: 'arrayAppend',
+	ARRAY_PREPEND: 'arrayPrepend',
+	ARRAY_ADD_UNIQUE: 'arrayAddUnique',
+	INCREMENT: 'increment',
 } as const;
 
 export const SEARCH_OPS = {
 	CREATE_INDEX: 'createIndex',
 	RETRIEVE: 'retrieve',
+	LIST_INDEXES: 'listIndexes',
+	GET_INDEX: 'getIndex',
+	DROP_INDEX: 'dropIndex',
+	COUNT_INDEXED_DOCUMENTS: 'countIndexedDocuments',
+	PAUSE_INGEST: 'pauseIngest',
+	RESUME_INGEST: 'resumeIngest',
+	ALLOW_QUERYING: 'allowQuerying',
+	DISALLOW_QUERYING: 'disallowQuerying',
+	FREEZE_PLAN: 'freezePlan',
+	UNFREEZE_PLAN: 'unfreezePlan',
+	ANALYZE_DOCUMENT: 'analyzeDocument',
+} as const;
+
+// Search operations managing an existing index, using the global or a scoped index manager
+export const SEARCH_INDEX_OPS: string[] = [
+	SEARCH_OPS.LIST_INDEXES,
+	SEARCH_OPS.GET_INDEX,
+	SEARCH_OPS.DROP_INDEX,
+	SEARCH_OPS.COUNT_INDEXED_DOCUMENTS,
+	SEARCH_OPS.PAUSE_INGEST,
+	SEARCH_OPS.RESUME_INGEST,
+	SEARCH_OPS.ALLOW_QUERYING,
+	SEARCH_OPS.DISALLOW_QUERYING,
+	SEARCH_OPS.FREEZE_PLAN,
+	SEARCH_OPS.UNFREEZE_PLAN,
+	SEARCH_OPS.ANALYZE_DOCUMENT,
+];
+
+// Search operations that use the global or a scoped index manager
+const SEARCH_INDEX_MANAGER_OPS: string[] = [SEARCH_OPS.CREATE_INDEX, ...SEARCH_INDEX_OPS];
+
+// Search operations that can use the search indexes of a scope
+const SCOPED_SEARCH_OPS: string[] = [SEARCH_OPS.RETRIEVE, ...SEARCH_INDEX_MANAGER_OPS];
+
+// Full-text search query types
+export const SEARCH_QUERY_TYPES = {
+	MATCH: 'match',
+	MATCH_PHRASE: 'matchPhrase',
+	QUERY_STRING: 'queryString',
+	TERM: 'term',
+	PREFIX: 'prefix',
+	WILDCARD: 'wildcard',
+	REGEXP: 'regexp',
+	FUZZY: 'fuzzy',
+	NUMERIC_RANGE: 'numericRange',
+	DATE_RANGE: 'dateRange',
+	BOOLEAN_FIELD: 'booleanField',
+	CONJUNCTION: 'conjunction',
+	DISJUNCTION: 'disjunction',
+	BOOLEAN: 'boolean',
+} as const;
+
+// Query types made up of other queries
+export const COMPOUND_SEARCH_QUERY_TYPES: string[] = [
+	SEARCH_QUERY_TYPES.CONJUNCTION,
+	SEARCH_QUERY_TYPES.DISJUNCTION,
+	SEARCH_QUERY_TYPES.BOOLEAN,
+];
+
+// Query types that search for the text of the Search Query field
+const TEXT_SEARCH_QUERY_TYPES: string[] = [
+	SEARCH_QUERY_TYPES.MATCH,
+	SEARCH_QUERY_TYPES.MATCH_PHRASE,
+	SEARCH_QUERY_TYPES.QUERY_STRING,
+	SEARCH_QUERY_TYPES.TERM,
+	SEARCH_QUERY_TYPES.PREFIX,
+	SEARCH_QUERY_TYPES.WILDCARD,
+	SEARCH_QUERY_TYPES.REGEXP,
+	SEARCH_QUERY_TYPES.FUZZY,
+];
+
+// How a query of a Boolean compound query has to match
+export const SEARCH_QUERY_OCCURRENCES = {
+	MUST: 'must',
+	SHOULD: 'should',
+	MUST_NOT: 'mustNot',
+} as const;
+
+// Full-text search facet types
+export const SEARCH_FACET_TYPES = {
+	TERM: 'term',
+	NUMERIC_RANGE: 'numericRange',
+	DATE_RANGE: 'dateRange',
+} as const;
+
+// What full-text search results are sorted by
+export const SEARCH_SORT_TYPES = {
+	SCORE: 'score',
+	ID: 'id',
+	FIELD: 'field',
 } as const;
 
 // Search Types
 export const SEARCH_TYPES = {
 	SEARCH_FULL_TEXT: 'searchFullText',
+	VECTOR: 'vectorSearch',
+	HYBRID: 'hybridSearch',
+} as const;
+
+// Search types that run the full-text query of the query builder
+const FULL_TEXT_QUERY_SEARCH_TYPES: string[] = [SEARCH_TYPES.SEARCH_FULL_TEXT, SEARCH_TYPES.HYBRID];
+
+// Where the vector of a vector search comes from
+export const VECTOR_SOURCES = {
+	VECTOR: 'vector',
+	EMBEDDINGS: 'embeddings',
 } as const;
 
 // Define option objects for document operations
@@ -152,6 +450,18 @@ const documentOperations = [
 		description: 'Retrieve a document by its ID',
 		action: 'Read a document',
 	},
+	{
+		name: 'Exists',
+		value: DOCUMENT_OPS.EXISTS,
+		description: 'Check whether a document exists without fetching it',
+		action: 'Check whether a document exists',
+	},
+	{
+		name: 'Get Many',
+		value: DOCUMENT_OPS.GET_MANY,
+		description: 'Retrieve several documents by their IDs concurrently',
+		action: 'Get many documents',
+	},
 	{
 		name: 'Upsert',
 		value: DOCUMENT_OPS.UPSERT,
@@ -159,6 +469,25 @@ const documentOperations = [
 			'Modify an existing document identified by its ID, or create a new one if it does not exist',
 		action: 'Upsert a document',
 	},
+	{
+		name: 'Replace',
+		value: DOCUMENT_OPS.REPLACE,
+		description:
+			'Replace an existing document identified by its ID, optionally only if its CAS value still matches',
+		action: 'Replace a document',
+	},
+	{
+		name: 'Touch',
+		value: DOCUMENT_OPS.TOUCH,
+		description: 'Update the expiry of a document without fetching it',
+		action: 'Touch a document',
+	},
+	{
+		name: 'Get and Touch',
+		value: DOCUMENT_OPS.GET_AND_TOUCH,
+		description: 'Retrieve a document by its ID and update its expiry',
+		action: 'Get and touch a document',
+	},
 	{
 		name: 'Delete',
 		value: DOCUMENT_OPS.DELETE,
@@ -167,20 +496,262 @@ const documentOperations = [
 	},
 ];
 
+// Define option objects for sub-document operations
+const subDocumentOperations = [
+	{
+		name: 'Lookup In',
+		value: SUB_DOCUMENT_OPS.LOOKUP_IN,
+		description: 'Read specific paths of a document without fetching the whole document',
+		action: 'Look up paths in a document',
+	},
+	{
+		name: 'Mutate In',
+		value: SUB_DOCUMENT_OPS.MUTATE_IN,
+		description:
+			'Atomically change specific paths of a document without replacing the whole document',
+		action: 'Mutate paths in a document',
+	},
+];
+
+// Define option objects for counter and binary operations
+const counterOperations = [
+	{
+		name: 'Increment',
+		value: COUNTER_OPS.INCREMENT,
+		description: 'Atomically add to a counter document',
+		action: 'Increment a counter',
+	},
+	{
+		name: 'Decrement',
+		value: COUNTER_OPS.DECREMENT,
+		description: 'Atomically subtract from a counter document, stopping at zero',
+		action: 'Decrement a counter',
+	},
+	{
+		name: 'Append',
+		value: COUNTER_OPS.APPEND,
+		description: 'Add bytes to the end of a raw binary or string document',
+		action: 'Append to a binary document',
+	},
+	{
+		name: 'Prepend',
+		value: COUNTER_OPS.PREPEND,
+		description: 'Add bytes to the beginning of a raw binary or string document',
+		action: 'Prepend to a binary document',
+	},
+];
+
+// Define option objects for data structure types and their operations
+const dataStructureTypeOptions = [
+	{
+		name: 'List',
+		value: DATA_STRUCTURE_TYPES.LIST,
+		description: 'An ordered list of values stored as a JSON array',
+	},
+	{
+		name: 'Map',
+		value: DATA_STRUCTURE_TYPES.MAP,
+		description: 'Key-value pairs stored as a JSON object',
+	},
+	{
+		name: 'Queue',
+		value: DATA_STRUCTURE_TYPES.QUEUE,
+		description: 'A first-in, first-out queue stored as a JSON array',
+	},
+	{
+		name: 'Set',
+		value: DATA_STRUCTURE_TYPES.SET,
+		description: 'Unique values stored as a JSON array',
+	},
+];
+
+const listOperations = [
+	{
+		name: 'Get At',
+		value: DATA_STRUCTURE_OPS.LIST_GET_AT,
+		description: 'Get the value at a position of the list',
+		action: 'Get a value from a list',
+	},
+	{
+		name: 'Pop',
+		value: DATA_STRUCTURE_OPS.LIST_POP,
+		description: 'Remove and return the last value of the list',
+		action: 'Pop a value from a list',
+	},
+	{
+		name: 'Push',
+		value: DATA_STRUCTURE_OPS.LIST_PUSH,
+		description: 'Add a value to the end of the list, creating the list if it does not exist',
+		action: 'Push a value to a list',
+	},
+	{
+		name: 'Remove At',
+		value: DATA_STRUCTURE_OPS.LIST_REMOVE_AT,
+		description: 'Remove the value at a position of the list',
+		action: 'Remove a value from a list',
+	},
+];
+
+const mapOperations = [
+	{
+		name: 'Get',
+		value: DATA_STRUCTURE_OPS.MAP_GET,
+		description: 'Get the value of a key of the map',
+		action: 'Get a value from a map',
+	},
+	{
+		name: 'Keys',
+		value: DATA_STRUCTURE_OPS.MAP_KEYS,
+		description: 'List the keys of the map',
+		action: 'List the keys of a map',
+	},
+	{
+		name: 'Remove',
+		value: DATA_STRUCTURE_OPS.MAP_REMOVE,
+		description: 'Remove a key from the map',
+		action: 'Remove a key from a map',
+	},
+	{
+		name: 'Set',
+		value: DATA_STRUCTURE_OPS.MAP_SET,
+		description: 'Set the value of a key of the map, creating the map if it does not exist',
+		action: 'Set a value in a map',
+	},
+];
+
+const setOperations = [
+	{
+		name: 'Add',
+		value: DATA_STRUCTURE_OPS.SET_ADD,
+		description:
+			'Add a value to the set if it is not already present, creating the set if it does not exist',
+		action: 'Add a value to a set',
+	},
+	{
+		name: 'Contains',
+		value: DATA_STRUCTURE_OPS.SET_CONTAINS,
+		description: 'Check whether the set contains a value',
+		action: 'Check whether a set contains a value',
+	},
+	{
+		name: 'Remove',
+		value: DATA_STRUCTURE_OPS.SET_REMOVE,
+		description: 'Remove a value from the set',
+		action: 'Remove a value from a set',
+	},
+];
+
+const queueOperations = [
+	{
+		name: 'Pop',
+		value: DATA_STRUCTURE_OPS.QUEUE_POP,
+		description: 'Remove and return the oldest value of the queue',
+		action: 'Pop a value from a queue',
+	},
+	{
+		name: 'Push',
+		value: DATA_STRUCTURE_OPS.QUEUE_PUSH,
+		description: 'Add a value to the queue, creating the queue if it does not exist',
+		action: 'Push a value to a queue',
+	},
+	{
+		name: 'Size',
+		value: DATA_STRUCTURE_OPS.QUEUE_SIZE,
+		description: 'Get the number of values in the queue',
+		action: 'Get the size of a queue',
+	},
+];
+
+// Define option objects for transaction operations
+const transactionOperations = [
+	{
+		name: 'Run',
+		value: TRANSACTION_OPS.RUN,
+		description: 'Run Key-Value and SQL++ steps atomically in a single transaction',
+		action: 'Run a transaction',
+	},
+];
+
 // Define option objects for search operations
 const searchOperations = [
+	{
+		name: 'Allow Querying',
+		value: SEARCH_OPS.ALLOW_QUERYING,
+		description: 'Allow searches on a search index again',
+		action: 'Allow querying a search index',
+	},
+	{
+		name: 'Analyze Document',
+		value: SEARCH_OPS.ANALYZE_DOCUMENT,
+		description: 'Show how a search index would analyze a document',
+		action: 'Analyze a document with a search index',
+	},
+	{
+		name: 'Count Indexed Documents',
+		value: SEARCH_OPS.COUNT_INDEXED_DOCUMENTS,
+		description: 'Get the number of documents in a search index',
+		action: 'Count the documents of a search index',
+	},
 	{
 		name: 'Create Index',
 		value: SEARCH_OPS.CREATE_INDEX,
 		description: 'Create a new search index',
 		action: 'Create a search index',
 	},
+	{
+		name: 'Disallow Querying',
+		value: SEARCH_OPS.DISALLOW_QUERYING,
+		description: 'Reject searches on a search index',
+		action: 'Disallow querying a search index',
+	},
+	{
+		name: 'Drop Index',
+		value: SEARCH_OPS.DROP_INDEX,
+		description: 'Delete a search index',
+		action: 'Drop a search index',
+	},
+	{
+		name: 'Freeze Plan',
+		value: SEARCH_OPS.FREEZE_PLAN,
+		description: 'Stop the partitions of a search index from being moved between nodes',
+		action: 'Freeze the plan of a search index',
+	},
+	{
+		name: 'Get Index',
+		value: SEARCH_OPS.GET_INDEX,
+		description: 'Get the definition of a search index',
+		action: 'Get a search index',
+	},
+	{
+		name: 'List Indexes',
+		value: SEARCH_OPS.LIST_INDEXES,
+		description: 'Get the definitions of all search indexes',
+		action: 'List search indexes',
+	},
+	{
+		name: 'Pause Ingest',
+		value: SEARCH_OPS.PAUSE_INGEST,
+		description: 'Stop a search index from indexing document changes',
+		action: 'Pause ingest of a search index',
+	},
+	{
+		name: 'Resume Ingest',
+		value: SEARCH_OPS.RESUME_INGEST,
+		description: 'Resume indexing document changes in a search index',
+		action: 'Resume ingest of a search index',
+	},
 	{
 		name: 'Search & Retrieve',
 		value: SEARCH_OPS.RETRIEVE,
 		description: 'Perform full-text search',
 		action: 'Search and retrieve documents',
 	},
+	{
+		name: 'Unfreeze Plan',
+		value: SEARCH_OPS.UNFREEZE_PLAN,
+		description: 'Allow the partitions of a search index to be moved between nodes again',
+		action: 'Unfreeze the plan of a search index',
+	},
 ];
 
 // Search type options
@@ -190,13 +761,323 @@ const searchTypeOptions = [
 		value: SEARCH_TYPES.SEARCH_FULL_TEXT,
 		description: 'Perform a Couchbase full-text search',
 	},
+	{
+		name: 'Vector Search',
+		value: SEARCH_TYPES.VECTOR,
+		description: 'Find the documents whose vectors are nearest to a vector',
+	},
+	{
+		name: 'Hybrid Search',
+		value: SEARCH_TYPES.HYBRID,
+		description: 'Combine a vector search with a full-text search query',
+	},
+];
+
+// Search query type options that do not combine other queries
+const simpleSearchQueryTypeOptions = [
+	{
+		name: 'Boolean Field',
+		value: SEARCH_QUERY_TYPES.BOOLEAN_FIELD,
+		description: 'Match documents whose boolean field has the given value',
+	},
+	{
+		name: 'Date Range',
+		value: SEARCH_QUERY_TYPES.DATE_RANGE,
+		description: 'Match dates between a start and an end',
+	},
+	{
+		name: 'Fuzzy Match',
+		value: SEARCH_QUERY_TYPES.FUZZY,
+		description: 'Match the analyzed text, allowing for misspelled terms',
+	},
+	{
+		name: 'Match',
+		value: SEARCH_QUERY_TYPES.MATCH,
+		description: 'Match the analyzed text against the field',
+	},
+	{
+		name: 'Match Phrase',
+		value: SEARCH_QUERY_TYPES.MATCH_PHRASE,
+		description: 'Match the analyzed terms in the same order',
+	},
+	{
+		name: 'Numeric Range',
+		value: SEARCH_QUERY_TYPES.NUMERIC_RANGE,
+		description: 'Match numbers between a minimum and a maximum',
+	},
+	{
+		name: 'Prefix',
+		value: SEARCH_QUERY_TYPES.PREFIX,
+		description: 'Match terms starting with the given text',
+	},
+	{
+		name: 'Query String',
+		value: SEARCH_QUERY_TYPES.QUERY_STRING,
+		description: 'Use the query string syntax, e.g. +name:hotel -city:paris',
+	},
+	{
+		name: 'Regular Expression',
+		value: SEARCH_QUERY_TYPES.REGEXP,
+		description: 'Match terms against a regular expression',
+	},
+	{
+		name: 'Term',
+		value: SEARCH_QUERY_TYPES.TERM,
+		description: 'Match the exact term, without analyzing it',
+	},
+	{
+		name: 'Wildcard',
+		value: SEARCH_QUERY_TYPES.WILDCARD,
+		description: 'Match terms against a pattern with * and ? wildcards',
+	},
 ];
 
+// All search query type options, in alphabetical order
+const searchQueryTypeOptions = [
+	...simpleSearchQueryTypeOptions,
+	{
+		name: 'Boolean',
+		value: SEARCH_QUERY_TYPES.BOOLEAN,
+		description: 'Combine queries that must, should, or must not match',
+	},
+	{
+		name: 'Conjunction (AND)',
+		value: SEARCH_QUERY_TYPES.CONJUNCTION,
+		description: 'Match documents matching all of the queries',
+	},
+	{
+		name: 'Disjunction (OR)',
+		value: SEARCH_QUERY_TYPES.DISJUNCTION,
+		description: 'Match documents matching any of the queries',
+	},
+].sort((a, b) => a.name.localeCompare(b.name));
+
 // Defaults
 const DOCUMENT_RESOURCE_VALUE = RESOURCE.DOCUMENT;
 const DOCUMENT_OPS_QUERY_VALUE = DOCUMENT_OPS.QUERY;
+const EXPIRY_TYPES_NONE_VALUE = EXPIRY_TYPES.NONE;
+const QUERY_PAGINATION_MODES_NONE_VALUE = QUERY_PAGINATION_MODES.NONE;
+const QUERY_PARAMETER_TYPES_STRING_VALUE = QUERY_PARAMETER_TYPES.STRING;
+const SUB_DOCUMENT_OPS_LOOKUP_IN_VALUE = SUB_DOCUMENT_OPS.LOOKUP_IN;
+const LOOKUP_IN_SPECS_GET_VALUE = LOOKUP_IN_SPECS.GET;
+const MUTATE_IN_SPECS_UPSERT_VALUE = MUTATE_IN_SPECS.UPSERT;
+const BINARY_METADATA_STORAGE_XATTR_VALUE = BINARY_METADATA_STORAGE.XATTR;
+const REPLICA_READ_MODES_ACTIVE_VALUE = REPLICA_READ_MODES.ACTIVE;
+const DOCUMENT_ID_STRATEGIES_UUID_V4_VALUE = DOCUMENT_ID_STRATEGIES.UUID_V4;
+const DOCUMENT_FORMATS_JSON_VALUE = DOCUMENT_FORMATS.JSON;
+const IF_DOCUMENT_EXISTS_FAIL_VALUE = IF_DOCUMENT_EXISTS.FAIL;
+const COUNTER_OPS_INCREMENT_VALUE = COUNTER_OPS.INCREMENT;
+const BINARY_ENCODINGS_UTF8_VALUE = BINARY_ENCODINGS.UTF8;
+const DATA_STRUCTURE_TYPES_LIST_VALUE = DATA_STRUCTURE_TYPES.LIST;
+const DATA_STRUCTURE_OPS_LIST_PUSH_VALUE = DATA_STRUCTURE_OPS.LIST_PUSH;
+const DATA_STRUCTURE_OPS_MAP_GET_VALUE = DATA_STRUCTURE_OPS.MAP_GET;
+const DATA_STRUCTURE_OPS_SET_ADD_VALUE = DATA_STRUCTURE_OPS.SET_ADD;
+const DATA_STRUCTURE_OPS_QUEUE_PUSH_VALUE = DATA_STRUCTURE_OPS.QUEUE_PUSH;
+const TRANSACTION_OPS_RUN_VALUE = TRANSACTION_OPS.RUN;
+const TRANSACTION_STEP_TYPES_GET_VALUE = TRANSACTION_STEP_TYPES.GET;
+const DURABILITY_LEVELS_MAJORITY_VALUE = DURABILITY_LEVELS.MAJORITY;
 const SEARCH_OPS_SEARCH_VALUE = SEARCH_OPS.RETRIEVE;
 const SEARCH_TYPE_FULL_TEXT_VALUE = SEARCH_TYPES.SEARCH_FULL_TEXT;
+const VECTOR_SOURCES_VECTOR_VALUE = VECTOR_SOURCES.VECTOR;
+const SEARCH_QUERY_TYPES_MATCH_VALUE = SEARCH_QUERY_TYPES.MATCH;
+const SEARCH_QUERY_OCCURRENCES_MUST_VALUE = SEARCH_QUERY_OCCURRENCES.MUST;
+const MATCH_OPERATOR_OR_VALUE = 'or';
+const SEARCH_FACET_TYPES_TERM_VALUE = SEARCH_FACET_TYPES.TERM;
+const SEARCH_SORT_TYPES_SCORE_VALUE = SEARCH_SORT_TYPES.SCORE;
+
+/**
+ * Creates the fields of a full-text search query that does not combine other queries,
+ * each shown for the query types that use it
+ * @param conditions - the display conditions of the query, in addition to its type
+ * @returns INodeProperties[] - the fields, keyed by the searchQueryType parameter next to them
+ */
+const createSimpleSearchQueryFields = (conditions: DisplayCondition): INodeProperties[] => {
+	const showForTypes = (types: string[]): IDisplayOptions => ({
+		show: { ...showFor(conditions).show, searchQueryType: types },
+	});
+	const rangeTypes = [SEARCH_QUERY_TYPES.NUMERIC_RANGE, SEARCH_QUERY_TYPES.DATE_RANGE];
+
+	return [
+		{
+			displayName: 'Search Query',
+			name: 'searchQuery',
+			type: 'string',
+			required: true,
+			displayOptions: showForTypes(TEXT_SEARCH_QUERY_TYPES),
+			default: '',
+			description: 'The text, term, pattern, or query string to search for',
+		},
+		{
+			displayName: 'Value',
+			name: 'searchBooleanValue',
+			type: 'boolean',
+			displayOptions: showForTypes([SEARCH_QUERY_TYPES.BOOLEAN_FIELD]),
+			default: true,
+			description: 'Whether to match documents whose field is true, or false',
+		},
+		{
+			displayName: 'Min',
+			name: 'searchRangeMin',
+			type: 'string',
+			displayOptions: showForTypes([SEARCH_QUERY_TYPES.NUMERIC_RANGE]),
+			default: '',
+			placeholder: 'e.g. 10',
+			description: 'Lower bound of the range. Leave empty for no lower bound.',
+		},
+		{
+			displayName: 'Max',
+			name: 'searchRangeMax',
+			type: 'string',
+			displayOptions: showForTypes([SEARCH_QUERY_TYPES.NUMERIC_RANGE]),
+			default: '',
+			placeholder: 'e.g. 100',
+			description: 'Upper bound of the range. Leave empty for no upper bound.',
+		},
+		{
+			displayName: 'Start',
+			name: 'searchRangeMin',
+			type: 'string',
+			displayOptions: showForTypes([SEARCH_QUERY_TYPES.DATE_RANGE]),
+			default: '',
+			placeholder: 'e.g. 2024-01-01T00:00:00Z',
+			description: 'Start of the range. Leave empty for no start.',
+		},
+		{
+			displayName: 'End',
+			name: 'searchRangeMax',
+			type: 'string',
+			displayOptions: showForTypes([SEARCH_QUERY_TYPES.DATE_RANGE]),
+			default: '',
+			placeholder: 'e.g. 2024-12-31T23:59:59Z',
+			description: 'End of the range. Leave empty for no end.',
+		},
+		{
+			displayName: 'Inclusive Min',
+			name: 'searchRangeInclusiveMin',
+			type: 'boolean',
+			displayOptions: showForTypes(rangeTypes),
+			default: true,
+			description: 'Whether values equal to the lower bound match',
+		},
+		{
+			displayName: 'Inclusive Max',
+			name: 'searchRangeInclusiveMax',
+			type: 'boolean',
+			displayOptions: showForTypes(rangeTypes),
+			default: false,
+			description: 'Whether values equal to the upper bound match',
+		},
+		{
+			displayName: 'Date Time Parser',
+			name: 'searchDateTimeParser',
+			type: 'string',
+			displayOptions: showForTypes([SEARCH_QUERY_TYPES.DATE_RANGE]),
+			default: '',
+			description:
+				'Name of the date time parser of the index to parse the start and end with. Leave empty to use the default parser.',
+		},
+		{
+			displayName: 'Field',
+			name: 'searchField',
+			type: 'string',
+			displayOptions: showForTypes(
+				simpleSearchQueryTypeOptions
+					.map(({ value }) => value as string)
+					.filter((type) => type !== SEARCH_QUERY_TYPES.QUERY_STRING),
+			),
+			default: '',
+			placeholder: 'e.g. description',
+			description: 'Field to search. Leave empty to search the default field of the index.',
+		},
+		{
+			displayName: 'Analyzer',
+			name: 'searchAnalyzer',
+			type: 'string',
+			displayOptions: showForTypes([
+				SEARCH_QUERY_TYPES.MATCH,
+				SEARCH_QUERY_TYPES.MATCH_PHRASE,
+				SEARCH_QUERY_TYPES.FUZZY,
+			]),
+			default: '',
+			placeholder: 'e.g. standard',
+			description:
+				'Analyzer to split the text into terms with. Leave empty to use the analyzer of the field.',
+		},
+		{
+			displayName: 'Operator',
+			name: 'searchMatchOperator',
+			type: 'options',
+			displayOptions: showForTypes([SEARCH_QUERY_TYPES.MATCH, SEARCH_QUERY_TYPES.FUZZY]),
+			options: [
+				{
+					name: 'And',
+					value: 'and',
+					description: 'Documents must match all terms of the text',
+				},
+				{
+					name: 'Or',
+					value: 'or',
+					description: 'Documents must match at least one term of the text',
+				},
+			],
+			default: MATCH_OPERATOR_OR_VALUE,
+			description: 'How the terms of the analyzed text are combined',
+		},
+		{
+			displayName: 'Fuzziness',
+			name: 'searchFuzziness',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+				maxValue: 2,
+			},
+			displayOptions: showForTypes([SEARCH_QUERY_TYPES.MATCH, SEARCH_QUERY_TYPES.TERM]),
+			default: 0,
+			description: 'Maximum number of character edits a matching term may differ by',
+		},
+		{
+			displayName: 'Fuzziness',
+			name: 'searchFuzziness',
+			type: 'number',
+			typeOptions: {
+				minValue: 1,
+				maxValue: 2,
+			},
+			displayOptions: showForTypes([SEARCH_QUERY_TYPES.FUZZY]),
+			default: 1,
+			description: 'Maximum number of character edits a matching term may differ by',
+		},
+		{
+			displayName: 'Prefix Length',
+			name: 'searchPrefixLength',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+			},
+			displayOptions: showForTypes([
+				SEARCH_QUERY_TYPES.MATCH,
+				SEARCH_QUERY_TYPES.TERM,
+				SEARCH_QUERY_TYPES.FUZZY,
+			]),
+			default: 0,
+			description: 'Number of leading characters of a term that must match exactly when fuzzy',
+		},
+		{
+			displayName: 'Boost',
+			name: 'searchBoost',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+				numberPrecision: 2,
+			},
+			displayOptions: showForTypes(
+				simpleSearchQueryTypeOptions.map(({ value }) => value as string),
+			),
+			default: 1,
+			description: 'Factor to multiply the score of matching documents by',
+		},
+	];
+};
 
 export const nodeProperties: INodeProperties[] = [
 	// Resource selector
@@ -212,11 +1093,33 @@ export const nodeProperties: INodeProperties[] = [
 				description:
 					'Create, read, upsert, and delete documents using direct key-value operations and execute SQL++ queries',
 			},
+			{
+				name: 'Sub-Document',
+				value: RESOURCE.SUB_DOCUMENT,
+				description: 'Read and atomically modify individual paths inside a document',
+			},
+			{
+				name: 'Counter & Binary',
+				value: RESOURCE.COUNTER,
+				description:
+					'Atomically increment and decrement counters, and append to raw binary or string documents',
+			},
+			{
+				name: 'Data Structure',
+				value: RESOURCE.DATA_STRUCTURE,
+				description:
+					'Use documents as lists, maps, sets, and queues, e.g. for work queues and deduplication',
+			},
 			{
 				name: 'Search',
 				value: RESOURCE.SEARCH,
 				description: 'Create and manage indexes, perform full-text searches',
 			},
+			{
+				name: 'Transaction',
+				value: RESOURCE.TRANSACTION,
+				description: 'Run several Key-Value and SQL++ operations atomically',
+			},
 		],
 		default: DOCUMENT_RESOURCE_VALUE,
 	},
@@ -232,27 +1135,132 @@ export const nodeProperties: INodeProperties[] = [
 		default: DOCUMENT_OPS_QUERY_VALUE,
 	},
 
-	// Search Operations
+	// Sub-Document Operations
 	{
 		displayName: 'Operation',
 		name: 'operation',
 		type: 'options',
 		noDataExpression: true,
-		displayOptions: showFor({ resource: RESOURCE.SEARCH }),
-		options: searchOperations,
-		default: SEARCH_OPS_SEARCH_VALUE,
+		displayOptions: showFor({ resource: RESOURCE.SUB_DOCUMENT }),
+		options: subDocumentOperations,
+		default: SUB_DOCUMENT_OPS_LOOKUP_IN_VALUE,
 	},
+
+	// Counter & Binary Operations
 	{
-		displayName: 'Search Type',
-		name: 'searchType',
+		displayName: 'Operation',
+		name: 'operation',
 		type: 'options',
-		displayOptions: showFor({
-			resource: RESOURCE.SEARCH,
-			operation: [SEARCH_OPS.RETRIEVE],
-		}),
-		options: searchTypeOptions,
-		default: SEARCH_TYPE_FULL_TEXT_VALUE,
-		description: 'Type of search to perform',
+		noDataExpression: true,
+		displayOptions: showFor({ resource: RESOURCE.COUNTER }),
+		options: counterOperations,
+		default: COUNTER_OPS_INCREMENT_VALUE,
+	},
+
+	// Data Structure Operations
+	{
+		displayName: 'Data Structure',
+		name: 'dataStructureType',
+		type: 'options',
+		noDataExpression: true,
+		displayOptions: showFor({ resource: RESOURCE.DATA_STRUCTURE }),
+		options: dataStructureTypeOptions,
+		default: DATA_STRUCTURE_TYPES_LIST_VALUE,
+		description: 'The type of data structure stored in the document',
+	},
+	{
+		displayName: 'Operation',
+		name: 'operation',
+		type: 'options',
+		noDataExpression: true,
+		displayOptions: showFor({
+			resource: RESOURCE.DATA_STRUCTURE,
+			dataStructureType: DATA_STRUCTURE_TYPES.LIST,
+		}),
+		options: listOperations,
+		default: DATA_STRUCTURE_OPS_LIST_PUSH_VALUE,
+	},
+	{
+		displayName: 'Operation',
+		name: 'operation',
+		type: 'options',
+		noDataExpression: true,
+		displayOptions: showFor({
+			resource: RESOURCE.DATA_STRUCTURE,
+			dataStructureType: DATA_STRUCTURE_TYPES.MAP,
+		}),
+		options: mapOperations,
+		default: DATA_STRUCTURE_OPS_MAP_GET_VALUE,
+	},
+	{
+		displayName: 'Operation',
+		name: 'operation',
+		type: 'options',
+		noDataExpression: true,
+		displayOptions: showFor({
+			resource: RESOURCE.DATA_STRUCTURE,
+			dataStructureType: DATA_STRUCTURE_TYPES.SET,
+		}),
+		options: setOperations,
+		default: DATA_STRUCTURE_OPS_SET_ADD_VALUE,
+	},
+	{
+		displayName: 'Operation',
+		name: 'operation',
+		type: 'options',
+		noDataExpression: true,
+		displayOptions: showFor({
+			resource: RESOURCE.DATA_STRUCTURE,
+			dataStructureType: DATA_STRUCTURE_TYPES.QUEUE,
+		}),
+		options: queueOperations,
+		default: DATA_STRUCTURE_OPS_QUEUE_PUSH_VALUE,
+	},
+
+	// Transaction Operations
+	{
+		displayName: 'Operation',
+		name: 'operation',
+		type: 'options',
+		noDataExpression: true,
+		displayOptions: showFor({ resource: RESOURCE.TRANSACTION }),
+		options: transactionOperations,
+		default: TRANSACTION_OPS_RUN_VALUE,
+	},
+
+	// Search Operations
+	{
+		displayName: 'Operation',
+		name: 'operation',
+		type: 'options',
+		noDataExpression: true,
+		displayOptions: showFor({ resource: RESOURCE.SEARCH }),
+		options: searchOperations,
+		default: SEARCH_OPS_SEARCH_VALUE,
+	},
+	{
+		displayName: 'Search Type',
+		name: 'searchType',
+		type: 'options',
+		displayOptions: showFor({
+			resource: RESOURCE.SEARCH,
+			operation: [SEARCH_OPS.RETRIEVE],
+		}),
+		options: searchTypeOptions,
+		default: SEARCH_TYPE_FULL_TEXT_VALUE,
+		description: 'Type of search to perform',
+	},
+	{
+		displayName: 'Use Scoped Index',
+		name: 'useScopedIndex',
+		type: 'boolean',
+		displayOptions: showFor({
+			resource: RESOURCE.SEARCH,
+			operation: SCOPED_SEARCH_OPS,
+		}),
+		default: false,
+		description:
+			'Whether to search, create, or manage the search indexes of a scope instead of the global ones. Vector indexes on Couchbase Server 7.6 and later are usually scoped.',
 	},
 
 	...createFieldWithVaryingRequirements(
@@ -262,13 +1270,41 @@ export const nodeProperties: INodeProperties[] = [
 		[
 			{
 				conditions: {
-					resource: RESOURCE.DOCUMENT,
-					operation: [
-						DOCUMENT_OPS.CREATE,
-						DOCUMENT_OPS.READ,
-						DOCUMENT_OPS.UPSERT,
-						DOCUMENT_OPS.DELETE,
+					resource: [
+						RESOURCE.DOCUMENT,
+						RESOURCE.SUB_DOCUMENT,
+						RESOURCE.COUNTER,
+						RESOURCE.DATA_STRUCTURE,
+						RESOURCE.TRANSACTION,
 					],
+					operation: COLLECTION_OPS,
+				},
+				required: true,
+				options: {
+					description: 'Couchbase bucket',
+				},
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'populateCouchbaseBucketRL',
+						},
+					},
+					{
+						displayName: 'Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'e.g. my_bucket',
+					},
+				],
+			},
+			{
+				conditions: {
+					resource: RESOURCE.SEARCH,
+					operation: SCOPED_SEARCH_OPS,
+					useScopedIndex: true,
 				},
 				required: true,
 				options: {
@@ -327,13 +1363,44 @@ export const nodeProperties: INodeProperties[] = [
 		[
 			{
 				conditions: {
-					resource: RESOURCE.DOCUMENT,
-					operation: [
-						DOCUMENT_OPS.CREATE,
-						DOCUMENT_OPS.READ,
-						DOCUMENT_OPS.UPSERT,
-						DOCUMENT_OPS.DELETE,
+					resource: [
+						RESOURCE.DOCUMENT,
+						RESOURCE.SUB_DOCUMENT,
+						RESOURCE.COUNTER,
+						RESOURCE.DATA_STRUCTURE,
+						RESOURCE.TRANSACTION,
 					],
+					operation: COLLECTION_OPS,
+				},
+				required: true,
+				options: {
+					description: 'The Couchbase scope to use',
+				},
+				typeOptions: {
+					loadOptionsDependsOn: ['couchbaseBucket.value'],
+				},
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'populateCouchbaseScopeRL',
+						},
+					},
+					{
+						displayName: 'Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'e.g. my_scope',
+					},
+				],
+			},
+			{
+				conditions: {
+					resource: RESOURCE.SEARCH,
+					operation: SCOPED_SEARCH_OPS,
+					useScopedIndex: true,
 				},
 				required: true,
 				options: {
@@ -398,8 +1465,14 @@ export const nodeProperties: INodeProperties[] = [
 		default: { mode: 'list', value: '' },
 		required: true,
 		displayOptions: showFor({
-			resource: RESOURCE.DOCUMENT,
-			operation: [DOCUMENT_OPS.CREATE, DOCUMENT_OPS.READ, DOCUMENT_OPS.UPSERT, DOCUMENT_OPS.DELETE],
+			resource: [
+				RESOURCE.DOCUMENT,
+				RESOURCE.SUB_DOCUMENT,
+				RESOURCE.COUNTER,
+				RESOURCE.DATA_STRUCTURE,
+				RESOURCE.TRANSACTION,
+			],
+			operation: COLLECTION_OPS,
 		}),
 		typeOptions: {
 			loadOptionsDependsOn: ['couchbaseBucket.value', 'couchbaseScope.value'],
@@ -432,6 +1505,94 @@ export const nodeProperties: INodeProperties[] = [
 			'Whether to use a user specified document ID. If false, a new ID will be generated.',
 	},
 
+	{
+		displayName: 'ID Generation',
+		name: 'documentIdStrategy',
+		type: 'options',
+		displayOptions: showFor({
+			resource: RESOURCE.DOCUMENT,
+			operation: [DOCUMENT_OPS.CREATE],
+			isSpecifyDocumentId: false,
+		}),
+		options: [
+			{
+				name: 'Key Template',
+				value: DOCUMENT_ID_STRATEGIES.TEMPLATE,
+				description: 'Build the ID from fields of the input item',
+			},
+			{
+				name: 'Sequential',
+				value: DOCUMENT_ID_STRATEGIES.SEQUENCE,
+				description: 'Use the next value of an atomic counter document',
+			},
+			{
+				name: 'ULID',
+				value: DOCUMENT_ID_STRATEGIES.ULID,
+				description: 'Generate a random ID that sorts by creation time',
+			},
+			{
+				name: 'UUID V4',
+				value: DOCUMENT_ID_STRATEGIES.UUID_V4,
+				description: 'Generate a random UUID',
+			},
+			{
+				name: 'UUID V7',
+				value: DOCUMENT_ID_STRATEGIES.UUID_V7,
+				description: 'Generate a random UUID that sorts by creation time',
+			},
+		],
+		default: DOCUMENT_ID_STRATEGIES_UUID_V4_VALUE,
+		description: 'How to generate the ID of the new document',
+	},
+
+	{
+		displayName: 'Key Template',
+		name: 'documentIdTemplate',
+		type: 'string',
+		required: true,
+		displayOptions: showFor({
+			resource: RESOURCE.DOCUMENT,
+			operation: [DOCUMENT_OPS.CREATE],
+			isSpecifyDocumentId: false,
+			documentIdStrategy: DOCUMENT_ID_STRATEGIES.TEMPLATE,
+		}),
+		default: '',
+		placeholder: 'e.g. {{customerId}}::{{ts}}',
+		description:
+			'Template of the ID, where {{path}} is replaced with the value at that path in the input item, e.g. {{customer.ID}}. {{ts}}, {{uuid}}, and {{ulid}} insert the current timestamp in milliseconds, a UUID, or a ULID unless the item has a field with that name.',
+	},
+
+	{
+		displayName: 'Counter Document ID',
+		name: 'documentIdCounterKey',
+		type: 'string',
+		required: true,
+		displayOptions: showFor({
+			resource: RESOURCE.DOCUMENT,
+			operation: [DOCUMENT_OPS.CREATE],
+			isSpecifyDocumentId: false,
+			documentIdStrategy: DOCUMENT_ID_STRATEGIES.SEQUENCE,
+		}),
+		default: '',
+		placeholder: 'e.g. order::counter',
+		description:
+			'ID of the counter document in the same collection that is incremented for every new document. It is created starting at 1 if it does not exist.',
+	},
+
+	{
+		displayName: 'ID Prefix',
+		name: 'documentIdPrefix',
+		type: 'string',
+		displayOptions: showFor({
+			resource: RESOURCE.DOCUMENT,
+			operation: [DOCUMENT_OPS.CREATE],
+			isSpecifyDocumentId: false,
+		}),
+		default: '',
+		placeholder: 'e.g. order::',
+		description: 'Text to put in front of the generated ID',
+	},
+
 	// Common document operations fields
 	...createFieldWithVaryingRequirements(
 		'Document ID',
@@ -440,8 +1601,28 @@ export const nodeProperties: INodeProperties[] = [
 		[
 			{
 				conditions: {
-					resource: RESOURCE.DOCUMENT,
-					operation: [DOCUMENT_OPS.UPSERT, DOCUMENT_OPS.DELETE, DOCUMENT_OPS.READ],
+					resource: [
+						RESOURCE.DOCUMENT,
+						RESOURCE.SUB_DOCUMENT,
+						RESOURCE.COUNTER,
+						RESOURCE.DATA_STRUCTURE,
+					],
+					operation: [
+						DOCUMENT_OPS.UPSERT,
+						DOCUMENT_OPS.REPLACE,
+						DOCUMENT_OPS.DELETE,
+						DOCUMENT_OPS.READ,
+						DOCUMENT_OPS.TOUCH,
+						DOCUMENT_OPS.GET_AND_TOUCH,
+						DOCUMENT_OPS.EXISTS,
+						SUB_DOCUMENT_OPS.LOOKUP_IN,
+						SUB_DOCUMENT_OPS.MUTATE_IN,
+						COUNTER_OPS.INCREMENT,
+						COUNTER_OPS.DECREMENT,
+						COUNTER_OPS.APPEND,
+						COUNTER_OPS.PREPEND,
+						...Object.values(DATA_STRUCTURE_OPS),
+					],
 				},
 				required: true,
 				options: {
@@ -466,69 +1647,1464 @@ export const nodeProperties: INodeProperties[] = [
 		],
 	),
 
-	// Create document fields
 	{
-		displayName: 'Document Value',
-		name: 'documentValue',
-		type: 'json',
-		displayOptions: showFor({
-			resource: RESOURCE.DOCUMENT,
-			operation: [DOCUMENT_OPS.CREATE, DOCUMENT_OPS.UPSERT],
-		}),
+		displayName: 'Document IDs',
+		name: 'documentIds',
+		type: 'string',
+		required: true,
+		displayOptions: showFor({ resource: RESOURCE.DOCUMENT, operation: [DOCUMENT_OPS.GET_MANY] }),
 		default: '',
-		description: 'Document content in JSON format',
+		placeholder: 'e.g. hotel_1, hotel_2, hotel_3',
+		description:
+			'Comma-separated IDs of the documents to retrieve, or an expression that returns an array of IDs',
 	},
 
-	// Query operation fields
 	{
-		displayName: 'Run Query',
-		name: 'query',
-		type: 'string',
-		displayOptions: showFor({ resource: RESOURCE.DOCUMENT, operation: [DOCUMENT_OPS.QUERY] }),
+		displayName: 'Concurrency',
+		name: 'getManyConcurrency',
+		type: 'number',
 		typeOptions: {
-			rows: 5,
+			minValue: 1,
 		},
-		default: '',
-		placeholder: 'e.g. SELECT * FROM users WHERE name="Michael"',
-		description: 'The SQL++ query to execute',
+		displayOptions: showFor({ resource: RESOURCE.DOCUMENT, operation: [DOCUMENT_OPS.GET_MANY] }),
+		default: 10,
+		description: 'Maximum number of documents to fetch at the same time',
 	},
 
-	// Create Index field
+	// Binary document fields
 	{
-		displayName: 'Index Definition',
-		name: 'indexDefinition',
-		type: 'json',
-		typeOptions: {
-			rows: 20,
-		},
-		required: true,
-		displayOptions: showFor({ resource: RESOURCE.SEARCH, operation: [SEARCH_OPS.CREATE_INDEX] }),
+		displayName: 'Binary File',
+		name: 'binaryData',
+		type: 'boolean',
+		displayOptions: showFor({
+			resource: RESOURCE.DOCUMENT,
+			operation: [DOCUMENT_OPS.CREATE, DOCUMENT_OPS.UPSERT],
+		}),
+		default: false,
 		description:
-			'The JSON object defining the index. See the Couchbase Search documentation for details.',
-		default: '',
-		validateType: 'object',
+			'Whether to store a file from the binary data of the input item as a raw binary document instead of JSON',
 	},
 
-	// Common search fields
 	{
-		displayName: 'Index Name',
-		name: 'indexName',
-		type: 'resourceLocator',
-		default: { mode: 'list', value: '' },
+		displayName: 'Binary File',
+		name: 'binaryData',
+		type: 'boolean',
+		displayOptions: showFor({ resource: RESOURCE.DOCUMENT, operation: [DOCUMENT_OPS.READ] }),
+		default: false,
+		description: 'Whether to read a raw binary document and output it as binary data',
+	},
+
+	{
+		displayName: 'Input Binary Field',
+		name: 'binaryPropertyName',
+		type: 'string',
 		required: true,
-		description: 'The name of the search index to query',
-		typeOptions: {
-			loadOptionsDependsOn: [
-				'useScopedIndex',
-				'couchbaseBucket.value',
-				'couchbaseScope.value',
-				'couchbaseCollection.value',
-			],
-		},
 		displayOptions: showFor({
-			resource: RESOURCE.SEARCH,
-			operation: [SEARCH_OPS.RETRIEVE],
-		}),
+			resource: RESOURCE.DOCUMENT,
+			operation: [DOCUMENT_OPS.CREATE, DOCUMENT_OPS.UPSERT],
+			binaryData: true,
+		}),
+		default: 'data',
+		hint: 'The name of the input binary field containing the file to be written',
+	},
+
+	{
+		displayName: 'Output Binary Field',
+		name: 'binaryPropertyName',
+		type: 'string',
+		required: true,
+		displayOptions: showFor({
+			resource: RESOURCE.DOCUMENT,
+			operation: [DOCUMENT_OPS.READ],
+			binaryData: true,
+		}),
+		default: 'data',
+		hint: 'The name of the output binary field to put the file in',
+	},
+
+	{
+		displayName: 'File Metadata Storage',
+		name: 'binaryMetadataStorage',
+		type: 'options',
+		displayOptions: showFor({
+			resource: RESOURCE.DOCUMENT,
+			operation: [DOCUMENT_OPS.CREATE, DOCUMENT_OPS.UPSERT, DOCUMENT_OPS.READ],
+			binaryData: true,
+		}),
+		options: [
+			{
+				name: 'Extended Attribute',
+				value: BINARY_METADATA_STORAGE.XATTR,
+				description:
+					'Store the file name and MIME type in an extended attribute (xattr) of the document itself',
+			},
+			{
+				name: 'Companion Document',
+				value: BINARY_METADATA_STORAGE.DOCUMENT,
+				description:
+					'Store the file name and MIME type in a separate JSON document with the ID suffix "::binaryMetadata"',
+			},
+		],
+		default: BINARY_METADATA_STORAGE_XATTR_VALUE,
+		description:
+			'Where the file name and MIME type are kept, so that reading the document can restore them. Use the same setting to write and read a document.',
+	},
+
+	{
+		displayName: 'Include Companion Metadata Document',
+		name: 'binaryMetadataDocument',
+		type: 'boolean',
+		displayOptions: showFor({
+			resource: RESOURCE.DOCUMENT,
+			operation: [DOCUMENT_OPS.DELETE, DOCUMENT_OPS.TOUCH, DOCUMENT_OPS.GET_AND_TOUCH],
+		}),
+		default: false,
+		description:
+			'Whether to also delete or touch the "::binaryMetadata" companion document of a binary file stored with Companion Document metadata, so the metadata does not outlive the file',
+	},
+
+	// Create document fields
+	{
+		displayName: 'Document Value',
+		name: 'documentValue',
+		type: 'json',
+		displayOptions: {
+			...showFor({
+				resource: RESOURCE.DOCUMENT,
+				operation: [DOCUMENT_OPS.CREATE, DOCUMENT_OPS.UPSERT, DOCUMENT_OPS.REPLACE],
+			}),
+			hide: {
+				binaryData: [true],
+			},
+		},
+		default: '',
+		description: 'Document content in JSON format',
+	},
+
+	{
+		displayName: 'Document Format',
+		name: 'documentFormat',
+		type: 'options',
+		displayOptions: {
+			...showFor({
+				resource: RESOURCE.DOCUMENT,
+				operation: [
+					DOCUMENT_OPS.CREATE,
+					DOCUMENT_OPS.UPSERT,
+					DOCUMENT_OPS.REPLACE,
+					DOCUMENT_OPS.READ,
+					DOCUMENT_OPS.GET_AND_TOUCH,
+					DOCUMENT_OPS.GET_MANY,
+				],
+			}),
+			hide: {
+				binaryData: [true],
+			},
+		},
+		options: [
+			{
+				name: 'JSON',
+				value: DOCUMENT_FORMATS.JSON,
+				description:
+					'Write the document value as a JSON object and read documents as JSON. From node version 3, a document value given as a JSON string is parsed before it is written.',
+			},
+			{
+				name: 'Raw JSON String',
+				value: DOCUMENT_FORMATS.RAW_JSON,
+				description:
+					'Write the document value as-is and flag it as JSON, without parsing it. Reads return the JSON text unparsed.',
+			},
+			{
+				name: 'Raw String',
+				value: DOCUMENT_FORMATS.RAW_STRING,
+				description: 'Write and read the document as plain text',
+			},
+			{
+				name: 'Raw Binary',
+				value: DOCUMENT_FORMATS.RAW_BINARY,
+				description:
+					'Write and read the document as raw bytes. The document value and the output are Base64 encoded.',
+			},
+		],
+		default: DOCUMENT_FORMATS_JSON_VALUE,
+		description: 'The format the document is stored in, which decides the transcoder the SDK uses',
+	},
+
+	{
+		displayName: 'If Document Exists',
+		name: 'ifDocumentExists',
+		type: 'options',
+		displayOptions: {
+			...showFor({ resource: RESOURCE.DOCUMENT, operation: [DOCUMENT_OPS.CREATE] }),
+			hide: {
+				binaryData: [true],
+			},
+		},
+		options: [
+			{
+				name: 'Fail',
+				value: IF_DOCUMENT_EXISTS.FAIL,
+				description: 'Fail the item with a "document exists" error',
+			},
+			{
+				name: 'Merge Fields (Deep)',
+				value: IF_DOCUMENT_EXISTS.MERGE_DEEP,
+				description:
+					'Write every field of the document value into the existing document, merging nested objects field by field',
+			},
+			{
+				name: 'Merge Fields (Shallow)',
+				value: IF_DOCUMENT_EXISTS.MERGE_SHALLOW,
+				description:
+					'Write the top-level fields of the document value into the existing document, replacing nested objects as a whole',
+			},
+			{
+				name: 'Overwrite',
+				value: IF_DOCUMENT_EXISTS.OVERWRITE,
+				description: 'Replace the existing document with the document value',
+			},
+			{
+				name: 'Skip',
+				value: IF_DOCUMENT_EXISTS.SKIP,
+				description: 'Leave the existing document unchanged and output it',
+			},
+		],
+		default: IF_DOCUMENT_EXISTS_FAIL_VALUE,
+		description:
+			'What to do when a document with the same ID already exists. Merging requires the JSON document format.',
+	},
+
+	{
+		displayName: 'Merge Document Fields',
+		name: 'mergeDocumentFields',
+		type: 'boolean',
+		displayOptions: {
+			show: {
+				'@version': [{ _cnd: { gte: 3 } }],
+				...showFor({
+					resource: RESOURCE.DOCUMENT,
+					operation: [DOCUMENT_OPS.READ, DOCUMENT_OPS.GET_AND_TOUCH, DOCUMENT_OPS.GET_MANY],
+				}).show,
+			},
+			hide: {
+				binaryData: [true],
+				documentFormat: [
+					DOCUMENT_FORMATS.RAW_JSON,
+					DOCUMENT_FORMATS.RAW_STRING,
+					DOCUMENT_FORMATS.RAW_BINARY,
+				],
+			},
+		},
+		default: false,
+		description:
+			'Whether to output the fields of the document at the top level of the item instead of under "value". The document ID and metadata such as the CAS value take precedence over document fields with the same name.',
+	},
+
+	{
+		displayName: 'Read From Replica',
+		name: 'replicaRead',
+		type: 'options',
+		displayOptions: {
+			...showFor({ resource: RESOURCE.DOCUMENT, operation: [DOCUMENT_OPS.READ] }),
+			hide: {
+				binaryData: [true],
+			},
+		},
+		options: [
+			{
+				name: 'No',
+				value: REPLICA_READ_MODES.ACTIVE,
+				description: 'Read the document from the active node only',
+			},
+			{
+				name: 'Any Replica',
+				value: REPLICA_READ_MODES.ANY_REPLICA,
+				description:
+					'Read the document from whichever of the active node and its replicas responds first. Useful when the active node is unavailable, at the risk of reading a stale copy.',
+			},
+			{
+				name: 'All Replicas',
+				value: REPLICA_READ_MODES.ALL_REPLICAS,
+				description:
+					'Read the document from the active node and all replicas, e.g. to compare the copies',
+			},
+		],
+		default: REPLICA_READ_MODES_ACTIVE_VALUE,
+		description: 'Whether to read the document from replica nodes',
+	},
+
+	{
+		displayName: 'Include Expiry',
+		name: 'withExpiry',
+		type: 'boolean',
+		displayOptions: {
+			...showFor({ resource: RESOURCE.DOCUMENT, operation: [DOCUMENT_OPS.READ] }),
+			// Replica reads cannot fetch the expiry, and raw documents are read without sub-document lookups
+			hide: {
+				replicaRead: [REPLICA_READ_MODES.ANY_REPLICA, REPLICA_READ_MODES.ALL_REPLICAS],
+				binaryData: [true],
+				documentFormat: [
+					DOCUMENT_FORMATS.RAW_JSON,
+					DOCUMENT_FORMATS.RAW_STRING,
+					DOCUMENT_FORMATS.RAW_BINARY,
+				],
+			},
+		},
+		default: false,
+		description: 'Whether to return the time at which the document expires',
+	},
+
+	{
+		displayName: 'Fields to Return',
+		name: 'projectFields',
+		type: 'string',
+		displayOptions: {
+			...showFor({ resource: RESOURCE.DOCUMENT, operation: [DOCUMENT_OPS.READ] }),
+			// Replica reads and raw documents always fetch the whole document
+			hide: {
+				replicaRead: [REPLICA_READ_MODES.ANY_REPLICA, REPLICA_READ_MODES.ALL_REPLICAS],
+				binaryData: [true],
+				documentFormat: [
+					DOCUMENT_FORMATS.RAW_JSON,
+					DOCUMENT_FORMATS.RAW_STRING,
+					DOCUMENT_FORMATS.RAW_BINARY,
+				],
+			},
+		},
+		default: '',
+		placeholder: 'e.g. name, address.city, reviews[0]',
+		description:
+			'Comma-separated paths of the fields to return, so that only part of a large document is transferred. Paths that do not exist are left out. Leave empty to return the whole document.',
+	},
+
+	// Expiry fields
+	{
+		displayName: 'Expiry',
+		name: 'expiry',
+		type: 'options',
+		displayOptions: showFor({
+			resource: [RESOURCE.DOCUMENT, RESOURCE.COUNTER],
+			operation: EXPIRY_OPS,
+		}),
+		options: [
+			{
+				name: 'Never',
+				value: EXPIRY_TYPES.NONE,
+				description: 'The document does not expire',
+			},
+			{
+				name: 'After a Duration',
+				value: EXPIRY_TYPES.DURATION,
+				description: 'The document expires after the given amount of time',
+			},
+			{
+				name: 'At a Date',
+				value: EXPIRY_TYPES.DATE,
+				description: 'The document expires at the given date and time',
+			},
+		],
+		default: EXPIRY_TYPES_NONE_VALUE,
+		description:
+			'When the document should expire and be removed automatically. Writing a document without an expiry clears any expiry it had before.',
+	},
+
+	{
+		displayName: 'Expire After',
+		name: 'expiryDuration',
+		type: 'number',
+		typeOptions: {
+			minValue: 1,
+		},
+		displayOptions: showFor({
+			resource: [RESOURCE.DOCUMENT, RESOURCE.COUNTER],
+			operation: EXPIRY_OPS,
+			expiry: EXPIRY_TYPES.DURATION,
+		}),
+		default: 1,
+		description: 'Amount of time after which the document expires',
+	},
+
+	{
+		displayName: 'Unit',
+		name: 'expiryDurationUnit',
+		type: 'options',
+		displayOptions: showFor({
+			resource: [RESOURCE.DOCUMENT, RESOURCE.COUNTER],
+			operation: EXPIRY_OPS,
+			expiry: EXPIRY_TYPES.DURATION,
+		}),
+		options: [
+			{ name: 'Seconds', value: 'seconds' },
+			{ name: 'Minutes', value: 'minutes' },
+			{ name: 'Hours', value: 'hours' },
+			{ name: 'Days', value: 'days' },
+		],
+		default: 'hours',
+		description: 'Unit of the expiry duration',
+	},
+
+	{
+		displayName: 'Expire At',
+		name: 'expiryDate',
+		type: 'dateTime',
+		displayOptions: showFor({
+			resource: [RESOURCE.DOCUMENT, RESOURCE.COUNTER],
+			operation: EXPIRY_OPS,
+			expiry: EXPIRY_TYPES.DATE,
+		}),
+		default: '',
+		description: 'Date and time at which the document expires',
+	},
+
+	// Counter & Binary fields
+	{
+		displayName: 'Delta',
+		name: 'counterDelta',
+		type: 'number',
+		typeOptions: {
+			minValue: 1,
+		},
+		displayOptions: showFor({
+			resource: RESOURCE.COUNTER,
+			operation: [COUNTER_OPS.INCREMENT, COUNTER_OPS.DECREMENT],
+		}),
+		default: 1,
+		description: 'Amount to add to or subtract from the counter',
+	},
+
+	{
+		displayName: 'Create If Missing',
+		name: 'counterCreateIfMissing',
+		type: 'boolean',
+		displayOptions: showFor({
+			resource: RESOURCE.COUNTER,
+			operation: [COUNTER_OPS.INCREMENT, COUNTER_OPS.DECREMENT],
+		}),
+		default: true,
+		description:
+			'Whether to create the counter with the initial value if the document does not exist. If false, the operation fails for missing documents.',
+	},
+
+	{
+		displayName: 'Initial Value',
+		name: 'counterInitialValue',
+		type: 'number',
+		typeOptions: {
+			minValue: 0,
+		},
+		displayOptions: showFor({
+			resource: RESOURCE.COUNTER,
+			operation: [COUNTER_OPS.INCREMENT, COUNTER_OPS.DECREMENT],
+			counterCreateIfMissing: true,
+		}),
+		default: 0,
+		description:
+			'Value of the counter when it is created. The delta is not applied to a newly created counter.',
+	},
+
+	{
+		displayName: 'Value',
+		name: 'binaryValue',
+		type: 'string',
+		displayOptions: showFor({
+			resource: RESOURCE.COUNTER,
+			operation: [COUNTER_OPS.APPEND, COUNTER_OPS.PREPEND],
+		}),
+		default: '',
+		description: 'The bytes to add to the document',
+	},
+
+	{
+		displayName: 'Value Encoding',
+		name: 'binaryEncoding',
+		type: 'options',
+		displayOptions: showFor({
+			resource: RESOURCE.COUNTER,
+			operation: [COUNTER_OPS.APPEND, COUNTER_OPS.PREPEND],
+		}),
+		options: [
+			{
+				name: 'UTF-8 Text',
+				value: BINARY_ENCODINGS.UTF8,
+			},
+			{
+				name: 'Base64',
+				value: BINARY_ENCODINGS.BASE64,
+			},
+		],
+		default: BINARY_ENCODINGS_UTF8_VALUE,
+		description: 'How the value is encoded',
+	},
+
+	// Data structure fields
+	{
+		displayName: 'Index',
+		name: 'dataStructureIndex',
+		type: 'number',
+		displayOptions: showFor({
+			resource: RESOURCE.DATA_STRUCTURE,
+			operation: [DATA_STRUCTURE_OPS.LIST_GET_AT, DATA_STRUCTURE_OPS.LIST_REMOVE_AT],
+		}),
+		default: 0,
+		description:
+			'Position in the list, starting at 0. Negative values count from the end, e.g. -1 for the last value.',
+	},
+
+	{
+		displayName: 'Key',
+		name: 'dataStructureKey',
+		type: 'string',
+		required: true,
+		displayOptions: showFor({
+			resource: RESOURCE.DATA_STRUCTURE,
+			operation: [
+				DATA_STRUCTURE_OPS.MAP_GET,
+				DATA_STRUCTURE_OPS.MAP_SET,
+				DATA_STRUCTURE_OPS.MAP_REMOVE,
+			],
+		}),
+		default: '',
+		description: 'The key in the map',
+	},
+
+	{
+		displayName: 'Value',
+		name: 'dataStructureValue',
+		type: 'string',
+		displayOptions: showFor({
+			resource: RESOURCE.DATA_STRUCTURE,
+			operation: [
+				DATA_STRUCTURE_OPS.LIST_PUSH,
+				DATA_STRUCTURE_OPS.MAP_SET,
+				DATA_STRUCTURE_OPS.SET_ADD,
+				DATA_STRUCTURE_OPS.SET_CONTAINS,
+				DATA_STRUCTURE_OPS.SET_REMOVE,
+				DATA_STRUCTURE_OPS.QUEUE_PUSH,
+			],
+		}),
+		default: '',
+		description:
+			'The value to store or look for. Valid JSON is parsed (e.g. 42, true, {"a": 1}), anything else is used as a string. Sets only support strings, numbers, booleans, and null.',
+	},
+
+	{
+		displayName: 'CAS',
+		name: 'cas',
+		type: 'string',
+		displayOptions: showFor({
+			resource: [RESOURCE.DOCUMENT, RESOURCE.COUNTER],
+			operation: [
+				DOCUMENT_OPS.UPSERT,
+				DOCUMENT_OPS.REPLACE,
+				DOCUMENT_OPS.DELETE,
+				COUNTER_OPS.APPEND,
+				COUNTER_OPS.PREPEND,
+			],
+		}),
+		default: '',
+		placeholder: 'e.g. 1712345678901234560',
+		description:
+			'The CAS value returned when the document was read. If set, the write only succeeds if the document has not been changed since, and the document must exist. Leave empty to write unconditionally.',
+	},
+
+	// Durability fields
+	...durabilityFields.map((field): INodeProperties => ({
+		...field,
+		displayOptions: {
+			show: {
+				...field.displayOptions?.show,
+				...showFor({
+					resource: [RESOURCE.DOCUMENT, RESOURCE.SUB_DOCUMENT, RESOURCE.COUNTER],
+					operation: DURABILITY_OPS,
+				}).show,
+			},
+		},
+	})),
+
+	// Batch mode fields
+	{
+		displayName: 'Batch Mode',
+		name: 'batchMode',
+		type: 'boolean',
+		displayOptions: showFor({
+			resource: RESOURCE.DOCUMENT,
+			operation: KEY_VALUE_OPS,
+		}),
+		default: false,
+		description:
+			'Whether to send the Key-Value calls for all input items concurrently. Each output item reports its own success or error instead of failing the execution.',
+	},
+
+	{
+		displayName: 'Concurrency',
+		name: 'batchConcurrency',
+		type: 'number',
+		typeOptions: {
+			minValue: 1,
+		},
+		displayOptions: showFor({
+			resource: RESOURCE.DOCUMENT,
+			operation: KEY_VALUE_OPS,
+			batchMode: true,
+		}),
+		default: 10,
+		description: 'Maximum number of Key-Value calls in flight at the same time',
+	},
+
+	// Sub-document operation fields
+	{
+		displayName: 'Lookup Specs',
+		name: 'lookupInSpecs',
+		type: 'fixedCollection',
+		typeOptions: {
+			multipleValues: true,
+		},
+		placeholder: 'Add Lookup Spec',
+		displayOptions: showFor({
+			resource: RESOURCE.SUB_DOCUMENT,
+			operation: [SUB_DOCUMENT_OPS.LOOKUP_IN],
+		}),
+		default: {},
+		description: 'The paths to read from the document, executed in order as a single lookup',
+		options: [
+			{
+				displayName: 'Spec',
+				name: 'specs',
+				values: [
+					{
+						displayName: 'Operation',
+						name: 'specType',
+						type: 'options',
+						options: [
+							{
+								name: 'Count',
+								value: LOOKUP_IN_SPECS.COUNT,
+								description: 'Count the elements of the array or object at the path',
+							},
+							{
+								name: 'Exists',
+								value: LOOKUP_IN_SPECS.EXISTS,
+								description: 'Check whether the path exists',
+							},
+							{
+								name: 'Get',
+								value: LOOKUP_IN_SPECS.GET,
+								description: 'Get the value at the path',
+							},
+						],
+						default: LOOKUP_IN_SPECS_GET_VALUE,
+					},
+					{
+						displayName: 'Path',
+						name: 'path',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. address.city',
+						description: 'The path inside the document, using dot and bracket notation',
+					},
+					{
+						displayName: 'Extended Attribute',
+						name: 'xattr',
+						type: 'boolean',
+						default: false,
+						description: 'Whether the path refers to an extended attribute (xattr)',
+					},
+				],
+			},
+		],
+	},
+
+	{
+		displayName: 'Mutation Specs',
+		name: 'mutateInSpecs',
+		type: 'fixedCollection',
+		typeOptions: {
+			multipleValues: true,
+		},
+		placeholder: 'Add Mutation Spec',
+		displayOptions: showFor({
+			resource: RESOURCE.SUB_DOCUMENT,
+			operation: [SUB_DOCUMENT_OPS.MUTATE_IN],
+		}),
+		default: {},
+		description:
+			'The changes to apply to the document, executed in order as a single atomic mutation',
+		options: [
+			{
+				displayName: 'Spec',
+				name: 'specs',
+				values: [
+					{
+						displayName: 'Operation',
+						name: 'specType',
+						type: 'options',
+						options: [
+							{
+								name: 'Array Add Unique',
+								value: MUTATE_IN_SPECS.ARRAY_ADD_UNIQUE,
+								description: 'Add the value to the array at the path if it is not already present',
+							},
+							{
+								name: 'Array Append',
+								value: MUTATE_IN_SPECS.ARRAY_APPEND,
+								description: 'Add the value to the end of the array at the path',
+							},
+							{
+								name: 'Array Prepend',
+								value: MUTATE_IN_SPECS.ARRAY_PREPEND,
+								description: 'Add the value to the beginning of the array at the path',
+							},
+							{
+								name: 'Increment',
+								value: MUTATE_IN_SPECS.INCREMENT,
+								description:
+									'Add the value to the number at the path. Use a negative value to decrement.',
+							},
+							{
+								name: 'Insert',
+								value: MUTATE_IN_SPECS.INSERT,
+								description: 'Set the value at the path, failing if the path already exists',
+							},
+							{
+								name: 'Remove',
+								value: MUTATE_IN_SPECS.REMOVE,
+								description: 'Remove the path',
+							},
+							{
+								name: 'Replace',
+								value: MUTATE_IN_SPECS.REPLACE,
+								description: 'Set the value at the path, failing if the path does not exist',
+							},
+							{
+								name: 'Upsert',
+								value: MUTATE_IN_SPECS.UPSERT,
+								description: 'Set the value at the path, creating it if it does not exist',
+							},
+						],
+						default: MUTATE_IN_SPECS_UPSERT_VALUE,
+					},
+					{
+						displayName: 'Path',
+						name: 'path',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. address.city',
+						description: 'The path inside the document, using dot and bracket notation',
+					},
+					{
+						displayName: 'Value',
+						name: 'value',
+						type: 'string',
+						displayOptions: {
+							hide: {
+								specType: [MUTATE_IN_SPECS.REMOVE],
+							},
+						},
+						default: '',
+						description:
+							'The value to write. Valid JSON is parsed (e.g. 42, true, {"a": 1}), anything else is stored as a string.',
+					},
+					{
+						displayName: 'Create Path',
+						name: 'createPath',
+						type: 'boolean',
+						displayOptions: {
+							hide: {
+								specType: [MUTATE_IN_SPECS.REPLACE, MUTATE_IN_SPECS.REMOVE],
+							},
+						},
+						default: false,
+						description: 'Whether to create any missing parent objects along the path',
+					},
+					{
+						displayName: 'Extended Attribute',
+						name: 'xattr',
+						type: 'boolean',
+						default: false,
+						description: 'Whether the path refers to an extended attribute (xattr)',
+					},
+				],
+			},
+		],
+	},
+
+	// Transaction fields
+	{
+		displayName: 'Steps',
+		name: 'transactionSteps',
+		type: 'fixedCollection',
+		typeOptions: {
+			multipleValues: true,
+			sortable: true,
+		},
+		placeholder: 'Add Step',
+		displayOptions: showFor({
+			resource: RESOURCE.TRANSACTION,
+			operation: [TRANSACTION_OPS.RUN],
+		}),
+		default: {},
+		description:
+			'The steps to run in order inside the transaction. If any step fails, all changes made by the transaction are rolled back.',
+		options: [
+			{
+				displayName: 'Step',
+				name: 'steps',
+				values: [
+					{
+						displayName: 'Operation',
+						name: 'stepType',
+						type: 'options',
+						options: [
+							{
+								name: 'Get',
+								value: TRANSACTION_STEP_TYPES.GET,
+								description: 'Read a document',
+							},
+							{
+								name: 'Insert',
+								value: TRANSACTION_STEP_TYPES.INSERT,
+								description: 'Create a document, failing if it already exists',
+							},
+							{
+								name: 'Query',
+								value: TRANSACTION_STEP_TYPES.QUERY,
+								description: 'Run a SQL++ statement',
+							},
+							{
+								name: 'Remove',
+								value: TRANSACTION_STEP_TYPES.REMOVE,
+								description: 'Delete a document',
+							},
+							{
+								name: 'Replace',
+								value: TRANSACTION_STEP_TYPES.REPLACE,
+								description: 'Replace the content of an existing document',
+							},
+						],
+						default: TRANSACTION_STEP_TYPES_GET_VALUE,
+					},
+					{
+						displayName: 'Step Name',
+						name: 'stepName',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. inventory',
+						description:
+							'Name to reference the result of this step in later steps, e.g. $steps.inventory.content.stock',
+					},
+					{
+						displayName: 'Document From Step',
+						name: 'sourceStep',
+						type: 'string',
+						displayOptions: {
+							show: {
+								stepType: [TRANSACTION_STEP_TYPES.REPLACE, TRANSACTION_STEP_TYPES.REMOVE],
+							},
+						},
+						default: '',
+						placeholder: 'e.g. inventory',
+						description:
+							'Name of an earlier Get, Insert, or Replace step whose document to change. Leave empty to read the document by its ID first.',
+					},
+					{
+						displayName: 'Document ID',
+						name: 'documentId',
+						type: 'string',
+						displayOptions: {
+							show: {
+								stepType: [
+									TRANSACTION_STEP_TYPES.GET,
+									TRANSACTION_STEP_TYPES.INSERT,
+									TRANSACTION_STEP_TYPES.REPLACE,
+									TRANSACTION_STEP_TYPES.REMOVE,
+								],
+							},
+						},
+						default: '',
+						description:
+							'The ID of the document. Not used by Replace and Remove when Document From Step is set.',
+					},
+					{
+						displayName: 'Value',
+						name: 'value',
+						type: 'json',
+						displayOptions: {
+							show: {
+								stepType: [TRANSACTION_STEP_TYPES.INSERT, TRANSACTION_STEP_TYPES.REPLACE],
+							},
+						},
+						default: '{}',
+						description:
+							'The document content. String values of the form $steps.stepName.path are replaced with values from earlier steps.',
+					},
+					{
+						displayName: 'Query',
+						name: 'query',
+						type: 'string',
+						typeOptions: {
+							editor: 'sqlEditor',
+						},
+						displayOptions: {
+							show: {
+								stepType: [TRANSACTION_STEP_TYPES.QUERY],
+							},
+						},
+						default: '',
+						placeholder:
+							'e.g. UPDATE inventory SET stock = stock - $quantity WHERE sku = $sku AND stock >= $quantity RETURNING stock',
+						description: 'The SQL++ statement to run inside the transaction',
+					},
+					{
+						displayName: 'Query Parameters',
+						name: 'parameters',
+						type: 'json',
+						displayOptions: {
+							show: {
+								stepType: [TRANSACTION_STEP_TYPES.QUERY],
+							},
+						},
+						default: '{}',
+						description:
+							'Named parameters as an object or positional parameters as an array. String values of the form $steps.stepName.path are replaced with values from earlier steps.',
+					},
+					{
+						displayName: 'Fail If No Rows',
+						name: 'requireRows',
+						type: 'boolean',
+						displayOptions: {
+							show: {
+								stepType: [TRANSACTION_STEP_TYPES.QUERY],
+							},
+						},
+						default: false,
+						description:
+							'Whether to roll back the transaction if the statement returns no rows, e.g. when an UPDATE ... RETURNING matched nothing.',
+					},
+					{
+						displayName: 'Bucket',
+						name: 'bucket',
+						type: 'string',
+						displayOptions: {
+							hide: {
+								stepType: [TRANSACTION_STEP_TYPES.QUERY],
+							},
+						},
+						default: '',
+						description: 'Bucket of the document. Leave empty to use the bucket selected above.',
+					},
+					{
+						displayName: 'Scope',
+						name: 'scope',
+						type: 'string',
+						displayOptions: {
+							hide: {
+								stepType: [TRANSACTION_STEP_TYPES.QUERY],
+							},
+						},
+						default: '',
+						description: 'Scope of the document. Leave empty to use the scope selected above.',
+					},
+					{
+						displayName: 'Collection',
+						name: 'collection',
+						type: 'string',
+						displayOptions: {
+							hide: {
+								stepType: [TRANSACTION_STEP_TYPES.QUERY],
+							},
+						},
+						default: '',
+						description:
+							'Collection of the document. Leave empty to use the collection selected above.',
+					},
+				],
+			},
+		],
+	},
+
+	{
+		displayName: 'Options',
+		name: 'transactionOptions',
+		type: 'collection',
+		placeholder: 'Add Option',
+		displayOptions: showFor({
+			resource: RESOURCE.TRANSACTION,
+			operation: [TRANSACTION_OPS.RUN],
+		}),
+		default: {},
+		options: [
+			{
+				displayName: 'Durability Level',
+				name: 'durabilityLevel',
+				type: 'options',
+				options: [
+					{
+						name: 'None',
+						value: DURABILITY_LEVELS.NONE,
+						description: 'Writes are committed as soon as they are in memory on the active node',
+					},
+					{
+						name: 'Majority',
+						value: DURABILITY_LEVELS.MAJORITY,
+						description: 'Writes must be replicated to a majority of the nodes in memory',
+					},
+					{
+						name: 'Majority and Persist to Active',
+						value: DURABILITY_LEVELS.MAJORITY_AND_PERSIST_TO_ACTIVE,
+						description:
+							'Writes must be replicated to a majority of the nodes and persisted to disk on the active node',
+					},
+					{
+						name: 'Persist to Majority',
+						value: DURABILITY_LEVELS.PERSIST_TO_MAJORITY,
+						description: 'Writes must be persisted to disk on a majority of the nodes',
+					},
+				],
+				default: DURABILITY_LEVELS_MAJORITY_VALUE,
+				description: 'The durability every write of the transaction must reach',
+			},
+			{
+				displayName: 'Timeout',
+				name: 'timeout',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 15000,
+				description:
+					'Maximum time in milliseconds the transaction may take, including retries, before it is rolled back',
+			},
+		],
+	},
+
+	// Query operation fields
+	{
+		displayName: 'Run Query',
+		name: 'query',
+		type: 'string',
+		displayOptions: showFor({ resource: RESOURCE.DOCUMENT, operation: [DOCUMENT_OPS.QUERY] }),
+		typeOptions: {
+			rows: 5,
+		},
+		default: '',
+		placeholder: 'e.g. SELECT * FROM users WHERE name="Michael"',
+		description: 'The SQL++ query to execute',
+	},
+
+	{
+		displayName: 'Query Parameters',
+		name: 'queryParameters',
+		type: 'fixedCollection',
+		typeOptions: {
+			multipleValues: true,
+		},
+		placeholder: 'Add Parameter',
+		displayOptions: showFor({ resource: RESOURCE.DOCUMENT, operation: [DOCUMENT_OPS.QUERY] }),
+		default: {},
+		description:
+			'Values to bind to the placeholders of the query instead of building them into the statement. Use either named parameters ($name) or positional parameters ($1, $2, ...), not both.',
+		options: [
+			{
+				displayName: 'Named Parameter',
+				name: 'named',
+				values: [
+					{
+						displayName: 'Name',
+						name: 'name',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. country',
+						description: 'Name of the parameter, referenced in the query as $name',
+					},
+					{
+						displayName: 'Type',
+						name: 'type',
+						type: 'options',
+						options: [
+							{
+								name: 'Boolean',
+								value: QUERY_PARAMETER_TYPES.BOOLEAN,
+								description: 'Pass true or false',
+							},
+							{
+								name: 'JSON',
+								value: QUERY_PARAMETER_TYPES.JSON,
+								description: 'Parse the value as JSON, e.g. an array or object',
+							},
+							{
+								name: 'Number',
+								value: QUERY_PARAMETER_TYPES.NUMBER,
+								description: 'Pass the value as a number',
+							},
+							{
+								name: 'String',
+								value: QUERY_PARAMETER_TYPES.STRING,
+								description: 'Pass the value as given',
+							},
+						],
+						default: QUERY_PARAMETER_TYPES_STRING_VALUE,
+						description: 'Type the value is passed to the query as',
+					},
+					{
+						displayName: 'Value',
+						name: 'value',
+						type: 'string',
+						default: '',
+						description: 'Value of the parameter, converted to the selected type',
+					},
+				],
+			},
+			{
+				displayName: 'Positional Parameter',
+				name: 'positional',
+				values: [
+					{
+						displayName: 'Type',
+						name: 'type',
+						type: 'options',
+						options: [
+							{
+								name: 'Boolean',
+								value: QUERY_PARAMETER_TYPES.BOOLEAN,
+								description: 'Pass true or false',
+							},
+							{
+								name: 'JSON',
+								value: QUERY_PARAMETER_TYPES.JSON,
+								description: 'Parse the value as JSON, e.g. an array or object',
+							},
+							{
+								name: 'Number',
+								value: QUERY_PARAMETER_TYPES.NUMBER,
+								description: 'Pass the value as a number',
+							},
+							{
+								name: 'String',
+								value: QUERY_PARAMETER_TYPES.STRING,
+								description: 'Pass the value as given',
+							},
+						],
+						default: QUERY_PARAMETER_TYPES_STRING_VALUE,
+						description: 'Type the value is passed to the query as',
+					},
+					{
+						displayName: 'Value',
+						name: 'value',
+						type: 'string',
+						default: '',
+						description:
+							'Value of the parameter, referenced in the query as $1, $2, ... in the order added. It is converted to the selected type.',
+					},
+				],
+			},
+		],
+	},
+
+	// Row limit and pagination fields of queries
+	{
+		displayName: 'Limit Results',
+		name: 'limitResults',
+		type: 'boolean',
+		displayOptions: showFor({ resource: RESOURCE.DOCUMENT, operation: [DOCUMENT_OPS.QUERY] }),
+		default: false,
+		description:
+			'Whether to limit the rows of the query in the statement, optionally fetching them page by page. The SDK loads each response in full, so this bounds the size of each response.',
+	},
+
+	{
+		displayName: 'Pagination',
+		name: 'queryPagination',
+		type: 'options',
+		displayOptions: showFor({
+			resource: RESOURCE.DOCUMENT,
+			operation: [DOCUMENT_OPS.QUERY],
+			limitResults: true,
+		}),
+		options: [
+			{
+				name: 'Single Query',
+				value: QUERY_PAGINATION_MODES.NONE,
+				description:
+					'Run the query once, with Max Rows appended as LIMIT if set. The query must then be a SELECT without a LIMIT or OFFSET of its own.',
+			},
+			{
+				name: 'Paginate Using OFFSET',
+				value: QUERY_PAGINATION_MODES.OFFSET,
+				description:
+					'Run the query repeatedly with LIMIT and OFFSET appended until Max Rows or all rows are returned. The query must be a SELECT with an ORDER BY clause and no LIMIT or OFFSET.',
+			},
+			{
+				name: 'Paginate Using Keyset',
+				value: QUERY_PAGINATION_MODES.KEYSET,
+				description:
+					'Run the query repeatedly with LIMIT appended, binding the key of the last row to $lastKey, until Max Rows or all rows are returned. The query must filter on $lastKey and be ordered by the key. Faster than OFFSET for large result sets.',
+			},
+		],
+		default: QUERY_PAGINATION_MODES_NONE_VALUE,
+		description: 'How to fetch the rows of the query',
+	},
+
+	{
+		displayName: 'Page Size',
+		name: 'queryPageSize',
+		type: 'number',
+		typeOptions: {
+			minValue: 1,
+		},
+		displayOptions: showFor({
+			resource: RESOURCE.DOCUMENT,
+			operation: [DOCUMENT_OPS.QUERY],
+			limitResults: true,
+			queryPagination: [QUERY_PAGINATION_MODES.OFFSET, QUERY_PAGINATION_MODES.KEYSET],
+		}),
+		default: 1000,
+		description: 'Number of rows to fetch per query',
+	},
+
+	{
+		displayName: 'Key Field',
+		name: 'queryKeyField',
+		type: 'string',
+		required: true,
+		displayOptions: showFor({
+			resource: RESOURCE.DOCUMENT,
+			operation: [DOCUMENT_OPS.QUERY],
+			limitResults: true,
+			queryPagination: [QUERY_PAGINATION_MODES.KEYSET],
+		}),
+		default: '',
+		placeholder: 'e.g. docKey',
+		description:
+			'Field of each returned row that holds the key the query is ordered by. Its value in the last row of a page is bound to $lastKey for the next page. The query must select this field and be ordered by it.',
+	},
+
+	{
+		displayName: 'Start After Key',
+		name: 'queryStartAfterKey',
+		type: 'string',
+		displayOptions: showFor({
+			resource: RESOURCE.DOCUMENT,
+			operation: [DOCUMENT_OPS.QUERY],
+			limitResults: true,
+			queryPagination: [QUERY_PAGINATION_MODES.KEYSET],
+		}),
+		default: '',
+		description:
+			'Value bound to $lastKey for the first page. It should sort before every key, e.g. an empty string for string keys or -1 for positive numeric keys. Valid JSON is parsed, anything else is passed as a string.',
+	},
+
+	{
+		displayName: 'Max Rows',
+		name: 'queryMaxRows',
+		type: 'number',
+		typeOptions: {
+			minValue: 0,
+		},
+		displayOptions: showFor({
+			resource: RESOURCE.DOCUMENT,
+			operation: [DOCUMENT_OPS.QUERY],
+			limitResults: true,
+			queryPagination: [QUERY_PAGINATION_MODES.NONE],
+		}),
+		default: 0,
+		description:
+			'Maximum number of rows to return, applied as the LIMIT of the query so the server stops there. 0 means no limit.',
+	},
+
+	{
+		displayName: 'Max Rows',
+		name: 'queryMaxRows',
+		type: 'number',
+		required: true,
+		typeOptions: {
+			minValue: 1,
+		},
+		displayOptions: showFor({
+			resource: RESOURCE.DOCUMENT,
+			operation: [DOCUMENT_OPS.QUERY],
+			limitResults: true,
+			queryPagination: [QUERY_PAGINATION_MODES.OFFSET, QUERY_PAGINATION_MODES.KEYSET],
+		}),
+		default: 10000,
+		description:
+			'Maximum number of rows to return across all pages. All pages are output together, so this bounds the memory the rows take up. No further pages are fetched once it is reached.',
+	},
+
+	{
+		displayName: 'Options',
+		name: 'queryOptions',
+		type: 'collection',
+		placeholder: 'Add Option',
+		displayOptions: showFor({ resource: RESOURCE.DOCUMENT, operation: [DOCUMENT_OPS.QUERY] }),
+		default: {},
+		options: [
+			{
+				displayName: 'Ad Hoc',
+				name: 'adhoc',
+				type: 'boolean',
+				default: true,
+				description:
+					'Whether the query is ad hoc. Disable to have the query service prepare the statement once and reuse the plan for later executions.',
+			},
+			{
+				displayName: 'Client Context ID',
+				name: 'clientContextId',
+				type: 'string',
+				default: '',
+				description: 'An identifier to trace the query with, returned in the query metadata',
+			},
+			{
+				displayName: 'Include Metadata',
+				name: 'includeMetadata',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to output the query metadata (status, metrics, warnings, and profile) as an additional item after the rows',
+			},
+			{
+				displayName: 'Max Parallelism',
+				name: 'maxParallelism',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 0,
+				description:
+					'Maximum number of index partitions to scan in parallel. 0 uses the query service setting.',
+			},
+			{
+				displayName: 'Metrics',
+				name: 'metrics',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to collect query metrics such as the elapsed time and result count',
+			},
+			{
+				displayName: 'Pipeline Batch',
+				name: 'pipelineBatch',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 16,
+				description:
+					'Number of items the execution operators can batch for fetches from the data service',
+			},
+			{
+				displayName: 'Profile',
+				name: 'profile',
+				type: 'options',
+				options: [
+					{
+						name: 'Off',
+						value: 'off',
+						description: 'Do not profile the query',
+					},
+					{
+						name: 'Phases',
+						value: 'phases',
+						description: 'Profile the time spent in each query phase',
+					},
+					{
+						name: 'Timings',
+						value: 'timings',
+						description: 'Profile the time spent in each phase and operator',
+					},
+				],
+				default: 'off',
+				description: 'Whether to return a profile of the query execution in the query metadata',
+			},
+			{
+				displayName: 'Read Only',
+				name: 'readOnly',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether the query is read-only. The query service rejects read-only queries that modify data.',
+			},
+			{
+				displayName: 'Scan Cap',
+				name: 'scanCap',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 512,
+				description: 'Maximum buffered channel size between the indexer and the query service',
+			},
+			{
+				displayName: 'Scan Consistency',
+				name: 'scanConsistency',
+				type: 'options',
+				options: [
+					{
+						name: 'Not Bounded',
+						value: 'not_bounded',
+						description:
+							'Return results from the index as it is, which is the fastest but may be stale',
+					},
+					{
+						name: 'Request Plus',
+						value: 'request_plus',
+						description:
+							'Wait until the index includes all mutations made before the query, so recent writes are always visible',
+					},
+				],
+				default: 'not_bounded',
+				description: 'The consistency the index must have with the data before the query runs',
+			},
+			{
+				displayName: 'Timeout',
+				name: 'timeout',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 75000,
+				description: 'Maximum time in milliseconds to wait for the query to complete',
+			},
+		],
+	},
+
+	// Create Index field
+	{
+		displayName: 'Index Definition',
+		name: 'indexDefinition',
+		type: 'json',
+		typeOptions: {
+			rows: 20,
+		},
+		required: true,
+		displayOptions: showFor({ resource: RESOURCE.SEARCH, operation: [SEARCH_OPS.CREATE_INDEX] }),
+		description:
+			'The JSON object defining the index. See the Couchbase Search documentation for details.',
+		default: '',
+		validateType: 'object',
+	},
+
+	// Common search fields
+	{
+		displayName: 'Index Name',
+		name: 'indexName',
+		type: 'resourceLocator',
+		default: { mode: 'list', value: '' },
+		required: true,
+		description: 'The name of the search index',
+		typeOptions: {
+			loadOptionsDependsOn: [
+				'useScopedIndex',
+				'couchbaseBucket.value',
+				'couchbaseScope.value',
+				'couchbaseCollection.value',
+			],
+		},
+		displayOptions: showFor({
+			resource: RESOURCE.SEARCH,
+			operation: [
+				SEARCH_OPS.RETRIEVE,
+				...SEARCH_INDEX_OPS.filter((operation) => operation !== SEARCH_OPS.LIST_INDEXES),
+			],
+		}),
 		modes: [
 			{
 				displayName: 'From List',
@@ -547,6 +3123,20 @@ export const nodeProperties: INodeProperties[] = [
 		],
 	},
 
+	// Analyze Document field
+	{
+		displayName: 'Document',
+		name: 'analyzeDocumentValue',
+		type: 'json',
+		required: true,
+		displayOptions: showFor({
+			resource: RESOURCE.SEARCH,
+			operation: [SEARCH_OPS.ANALYZE_DOCUMENT],
+		}),
+		default: '{}',
+		description: 'The JSON document to analyze with the analyzers of the index',
+	},
+
 	{
 		displayName: 'Advanced Mode',
 		name: 'advancedMode',
@@ -561,17 +3151,238 @@ export const nodeProperties: INodeProperties[] = [
 
 	// Full-text search specific fields
 	{
-		displayName: 'Search Query',
-		name: 'searchQuery',
+		displayName: 'Query Type',
+		name: 'searchQueryType',
+		type: 'options',
+		displayOptions: showFor({
+			resource: RESOURCE.SEARCH,
+			operation: [SEARCH_OPS.RETRIEVE],
+			advancedMode: false,
+			searchType: FULL_TEXT_QUERY_SEARCH_TYPES,
+		}),
+		options: searchQueryTypeOptions,
+		default: SEARCH_QUERY_TYPES_MATCH_VALUE,
+		description: 'Type of the full-text search query',
+	},
+
+	...createSimpleSearchQueryFields({
+		resource: RESOURCE.SEARCH,
+		operation: [SEARCH_OPS.RETRIEVE],
+		advancedMode: false,
+		searchType: FULL_TEXT_QUERY_SEARCH_TYPES,
+	}),
+
+	{
+		displayName: 'Queries',
+		name: 'searchSubQueries',
+		type: 'fixedCollection',
+		typeOptions: {
+			multipleValues: true,
+		},
+		placeholder: 'Add Query',
+		displayOptions: showFor({
+			resource: RESOURCE.SEARCH,
+			operation: [SEARCH_OPS.RETRIEVE],
+			advancedMode: false,
+			searchType: FULL_TEXT_QUERY_SEARCH_TYPES,
+			searchQueryType: COMPOUND_SEARCH_QUERY_TYPES,
+		}),
+		default: {},
+		description: 'The queries to combine',
+		options: [
+			{
+				displayName: 'Query',
+				name: 'queries',
+				values: [
+					{
+						displayName: 'Occurrence',
+						name: 'occurrence',
+						type: 'options',
+						displayOptions: {
+							show: {
+								'/searchQueryType': [SEARCH_QUERY_TYPES.BOOLEAN],
+							},
+						},
+						options: [
+							{
+								name: 'Must',
+								value: SEARCH_QUERY_OCCURRENCES.MUST,
+								description: 'Documents must match this query',
+							},
+							{
+								name: 'Must Not',
+								value: SEARCH_QUERY_OCCURRENCES.MUST_NOT,
+								description: 'Documents must not match this query',
+							},
+							{
+								name: 'Should',
+								value: SEARCH_QUERY_OCCURRENCES.SHOULD,
+								description:
+									'Documents should match this query. Matching raises the score, and at least Min Should Match of these queries must match.',
+							},
+						],
+						default: SEARCH_QUERY_OCCURRENCES_MUST_VALUE,
+					},
+					{
+						displayName: 'Query Type',
+						name: 'searchQueryType',
+						type: 'options',
+						options: simpleSearchQueryTypeOptions,
+						default: SEARCH_QUERY_TYPES_MATCH_VALUE,
+						description: 'Type of the full-text search query',
+					},
+					...createSimpleSearchQueryFields({}),
+				],
+			},
+		],
+	},
+
+	{
+		displayName: 'Min Should Match',
+		name: 'searchShouldMin',
+		type: 'number',
+		typeOptions: {
+			minValue: 1,
+		},
+		displayOptions: showFor({
+			resource: RESOURCE.SEARCH,
+			operation: [SEARCH_OPS.RETRIEVE],
+			advancedMode: false,
+			searchType: FULL_TEXT_QUERY_SEARCH_TYPES,
+			searchQueryType: [SEARCH_QUERY_TYPES.BOOLEAN],
+		}),
+		default: 1,
+		description: 'Minimum number of Should queries a document has to match',
+	},
+
+	{
+		displayName: 'Boost',
+		name: 'searchBoost',
+		type: 'number',
+		typeOptions: {
+			minValue: 0,
+			numberPrecision: 2,
+		},
+		displayOptions: showFor({
+			resource: RESOURCE.SEARCH,
+			operation: [SEARCH_OPS.RETRIEVE],
+			advancedMode: false,
+			searchType: FULL_TEXT_QUERY_SEARCH_TYPES,
+			// The SDK does not send the boost of Boolean queries
+			searchQueryType: [SEARCH_QUERY_TYPES.CONJUNCTION, SEARCH_QUERY_TYPES.DISJUNCTION],
+		}),
+		default: 1,
+		description: 'Factor to multiply the score of matching documents by',
+	},
+
+	// Vector search fields
+	{
+		displayName: 'Vector Source',
+		name: 'vectorSource',
+		type: 'options',
+		displayOptions: showFor({
+			resource: RESOURCE.SEARCH,
+			operation: [SEARCH_OPS.RETRIEVE],
+			advancedMode: false,
+			searchType: [SEARCH_TYPES.VECTOR, SEARCH_TYPES.HYBRID],
+		}),
+		options: [
+			{
+				name: 'Embeddings Model',
+				value: VECTOR_SOURCES.EMBEDDINGS,
+				description: 'Embed a text with the connected embeddings model',
+			},
+			{
+				name: 'Vector',
+				value: VECTOR_SOURCES.VECTOR,
+				description: 'Use a vector given as a parameter, e.g. from an expression',
+			},
+		],
+		default: VECTOR_SOURCES_VECTOR_VALUE,
+		description: 'Where the vector to search for comes from',
+	},
+
+	{
+		displayName: 'Vector',
+		name: 'vectorValue',
+		type: 'json',
+		required: true,
+		displayOptions: showFor({
+			resource: RESOURCE.SEARCH,
+			operation: [SEARCH_OPS.RETRIEVE],
+			advancedMode: false,
+			searchType: [SEARCH_TYPES.VECTOR, SEARCH_TYPES.HYBRID],
+			vectorSource: VECTOR_SOURCES.VECTOR,
+		}),
+		default: '[]',
+		description:
+			'The vector to search for, as a JSON array of numbers or a Base64 encoded string of little-endian 32-bit floats',
+	},
+
+	{
+		displayName: 'Text to Embed',
+		name: 'vectorQueryText',
+		type: 'string',
+		required: true,
+		displayOptions: showFor({
+			resource: RESOURCE.SEARCH,
+			operation: [SEARCH_OPS.RETRIEVE],
+			advancedMode: false,
+			searchType: [SEARCH_TYPES.VECTOR, SEARCH_TYPES.HYBRID],
+			vectorSource: VECTOR_SOURCES.EMBEDDINGS,
+		}),
+		default: '',
+		description:
+			'The text to turn into the vector to search for with the connected embeddings model',
+	},
+
+	{
+		displayName: 'Vector Field',
+		name: 'vectorField',
 		type: 'string',
 		required: true,
 		displayOptions: showFor({
 			resource: RESOURCE.SEARCH,
 			operation: [SEARCH_OPS.RETRIEVE],
 			advancedMode: false,
+			searchType: [SEARCH_TYPES.VECTOR, SEARCH_TYPES.HYBRID],
+		}),
+		default: '',
+		placeholder: 'e.g. embedding',
+		description: 'The vector field of the index to search',
+	},
+
+	{
+		displayName: 'K',
+		name: 'vectorK',
+		type: 'number',
+		typeOptions: {
+			minValue: 1,
+		},
+		displayOptions: showFor({
+			resource: RESOURCE.SEARCH,
+			operation: [SEARCH_OPS.RETRIEVE],
+			advancedMode: false,
+			searchType: [SEARCH_TYPES.VECTOR, SEARCH_TYPES.HYBRID],
+		}),
+		default: 3,
+		description: 'Number of nearest neighbors to find',
+	},
+
+	{
+		displayName: 'Pre-Filter Query',
+		name: 'vectorPrefilter',
+		type: 'string',
+		displayOptions: showFor({
+			resource: RESOURCE.SEARCH,
+			operation: [SEARCH_OPS.RETRIEVE],
+			advancedMode: false,
+			searchType: [SEARCH_TYPES.VECTOR, SEARCH_TYPES.HYBRID],
 		}),
 		default: '',
-		description: 'The full-text search query to execute',
+		placeholder: 'e.g. +category:shoes +inStock:true',
+		description:
+			'Full-text search query in query string syntax that documents must match to be considered as nearest neighbors. Leave empty to consider all documents.',
 	},
 
 	{
@@ -617,6 +3428,255 @@ export const nodeProperties: INodeProperties[] = [
 		description: 'Whether to include term locations in the search results',
 	},
 
+	{
+		displayName: 'Sort',
+		name: 'searchSort',
+		type: 'fixedCollection',
+		typeOptions: {
+			multipleValues: true,
+			sortable: true,
+		},
+		placeholder: 'Add Sort Key',
+		displayOptions: showFor({
+			resource: RESOURCE.SEARCH,
+			operation: [SEARCH_OPS.RETRIEVE],
+			advancedMode: false,
+		}),
+		default: {},
+		description:
+			'The keys to sort the results by, in order of precedence. Results are sorted by descending score if none are added.',
+		options: [
+			{
+				displayName: 'Sort Key',
+				name: 'sortKeys',
+				values: [
+					{
+						displayName: 'Sort By',
+						name: 'sortBy',
+						type: 'options',
+						options: [
+							{
+								name: 'Document ID',
+								value: SEARCH_SORT_TYPES.ID,
+							},
+							{
+								name: 'Field',
+								value: SEARCH_SORT_TYPES.FIELD,
+							},
+							{
+								name: 'Score',
+								value: SEARCH_SORT_TYPES.SCORE,
+							},
+						],
+						default: SEARCH_SORT_TYPES_SCORE_VALUE,
+					},
+					{
+						displayName: 'Field',
+						name: 'field',
+						type: 'string',
+						displayOptions: {
+							show: {
+								sortBy: [SEARCH_SORT_TYPES.FIELD],
+							},
+						},
+						default: '',
+						placeholder: 'e.g. price',
+						description: 'The indexed field to sort by',
+					},
+					{
+						displayName: 'Descending',
+						name: 'descending',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to sort from the highest to the lowest value',
+					},
+				],
+			},
+		],
+	},
+
+	{
+		displayName: 'Facets',
+		name: 'searchFacets',
+		type: 'fixedCollection',
+		typeOptions: {
+			multipleValues: true,
+		},
+		placeholder: 'Add Facet',
+		displayOptions: showFor({
+			resource: RESOURCE.SEARCH,
+			operation: [SEARCH_OPS.RETRIEVE],
+			advancedMode: false,
+		}),
+		default: {},
+		description:
+			'Counts of the matching documents per term or range of a field, output as an additional item after the results',
+		options: [
+			{
+				displayName: 'Facet',
+				name: 'facets',
+				values: [
+					{
+						displayName: 'Name',
+						name: 'name',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. categories',
+						description: 'Name of the facet in the output',
+					},
+					{
+						displayName: 'Type',
+						name: 'facetType',
+						type: 'options',
+						options: [
+							{
+								name: 'Date Range',
+								value: SEARCH_FACET_TYPES.DATE_RANGE,
+								description: 'Count the documents per date range',
+							},
+							{
+								name: 'Numeric Range',
+								value: SEARCH_FACET_TYPES.NUMERIC_RANGE,
+								description: 'Count the documents per numeric range',
+							},
+							{
+								name: 'Term',
+								value: SEARCH_FACET_TYPES.TERM,
+								description: 'Count the documents per term, e.g. per category',
+							},
+						],
+						default: SEARCH_FACET_TYPES_TERM_VALUE,
+					},
+					{
+						displayName: 'Field',
+						name: 'field',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. category',
+						description: 'The indexed field to count the values of',
+					},
+					{
+						displayName: 'Size',
+						name: 'size',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+						},
+						default: 10,
+						description: 'Maximum number of terms or ranges to return',
+					},
+					{
+						displayName: 'Ranges',
+						name: 'ranges',
+						type: 'json',
+						displayOptions: {
+							show: {
+								facetType: [SEARCH_FACET_TYPES.NUMERIC_RANGE],
+							},
+						},
+						default: '[]',
+						placeholder: '[{"name": "cheap", "max": 100}, {"name": "expensive", "min": 100}]',
+						description:
+							'JSON array of the ranges, each with a name and an optional min and max. The min is inclusive and the max exclusive.',
+					},
+					{
+						displayName: 'Ranges',
+						name: 'ranges',
+						type: 'json',
+						displayOptions: {
+							show: {
+								facetType: [SEARCH_FACET_TYPES.DATE_RANGE],
+							},
+						},
+						default: '[]',
+						placeholder:
+							'[{"name": "2024", "start": "2024-01-01T00:00:00Z", "end": "2025-01-01T00:00:00Z"}]',
+						description:
+							'JSON array of the ranges, each with a name and an optional start and end date. The start is inclusive and the end exclusive.',
+					},
+				],
+			},
+		],
+	},
+
+	{
+		displayName: 'Options',
+		name: 'searchOptions',
+		type: 'collection',
+		placeholder: 'Add Option',
+		displayOptions: showFor({
+			resource: RESOURCE.SEARCH,
+			operation: [SEARCH_OPS.RETRIEVE],
+			advancedMode: false,
+		}),
+		default: {},
+		options: [
+			{
+				displayName: 'Disable Scoring',
+				name: 'disableScoring',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to skip calculating the score of the results, which is faster when the order of the results does not matter',
+			},
+			{
+				displayName: 'Explain',
+				name: 'explain',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to output an explanation of how the score of each result was calculated',
+			},
+			{
+				displayName: 'Highlight Fields',
+				name: 'highlightFields',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. name, description',
+				description:
+					'Comma-separated fields to highlight the matched terms in. Leave empty to highlight all fields that store term vectors.',
+			},
+			{
+				displayName: 'Highlight Style',
+				name: 'highlightStyle',
+				type: 'options',
+				options: [
+					{
+						name: 'ANSI',
+						value: 'ansi',
+						description: 'Highlight with terminal color codes',
+					},
+					{
+						name: 'HTML',
+						value: 'html',
+						description: 'Highlight with &lt;mark&gt; tags',
+					},
+				],
+				default: 'html',
+				description: 'Whether to highlight the matched terms in the results, and how',
+			},
+			{
+				displayName: 'Include Metadata',
+				name: 'includeMetadata',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to output the search metadata (metrics and errors) in the additional item after the results',
+			},
+			{
+				displayName: 'Skip',
+				name: 'skip',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 0,
+				description:
+					'Number of results to skip, to page through the results together with the limit',
+			},
+		],
+	},
+
 	{
 		displayName: 'Raw Search Query',
 		name: 'rawQuery',
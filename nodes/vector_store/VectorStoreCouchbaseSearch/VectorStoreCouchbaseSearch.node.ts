@@ -21,6 +21,12 @@ import {
 } from '@utils/couchbase/populateCouchbaseRLs';
 import { connectToCouchbase } from '@utils/couchbase/connectToCouchbase';
 import { validateBucketScopeCollection } from '@utils/couchbase/validateBucketScopeCollection';
+import {
+	durabilityFields,
+	getDurabilityOptions,
+	makeDurabilityErrorDescription,
+} from '@utils/couchbase/durability';
+import { upsertVectorDocuments } from '../shared/upsertVectorDocuments';
 
 const couchbaseBucketRL: INodeProperties = {
 	displayName: 'Couchbase Bucket',
@@ -221,6 +227,7 @@ const insertFields: INodeProperties[] = [
 					},
 				],
 			},
+			...durabilityFields,
 		],
 	},
 ];
@@ -412,12 +419,42 @@ export class VectorStoreCouchbaseSearch extends createVectorStoreNode<CouchbaseS
 				}
 			}
 
+			const durabilityOptions = getDurabilityOptions(
+				options.durabilityLevel as string | undefined,
+				options.durabilityPersistTo as number | undefined,
+				options.durabilityReplicateTo as number | undefined,
+			);
+			if (durabilityOptions) {
+				const collection = cluster
+					.bucket(couchbaseBucketName)
+					.scope(couchbaseScopeName)
+					.collection(couchbaseCollectionName);
+				return await upsertVectorDocuments(
+					context,
+					collection,
+					embeddings,
+					documents,
+					{ textKey: textFieldName, embeddingKey: embeddingFieldName },
+					addVectorOptions,
+					'options',
+					durabilityOptions,
+				);
+			}
+
 			// Initialize the vector store and use addDocuments to get the inserted IDs
 			const vectorStore = await CouchbaseSearchVectorStore.initialize(embeddings, couchbaseConfig);
 			const insertedIds = await vectorStore.addDocuments(documents, addVectorOptions);
 
 			return insertedIds;
 		} catch (error) {
+			const durabilityErrorDescription = makeDurabilityErrorDescription(error);
+			if (durabilityErrorDescription) {
+				throw new NodeOperationError(
+					context.getNode(),
+					`Durability requirement could not be met: ${error.message}.`,
+					{ description: durabilityErrorDescription },
+				);
+			}
 			if (!(error instanceof NodeOperationError)) {
 				throw new NodeOperationError(context.getNode(), `Error: ${error.message}`);
 			}
@@ -0,0 +1,86 @@
+import type { Document } from '@langchain/core/documents';
+import type { Embeddings } from '@langchain/core/embeddings';
+import type { Collection, UpsertOptions } from 'couchbase';
+import type { IExecuteFunctions, ISupplyDataFunctions } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import * as uuid from 'uuid';
+
+// Field the LangChain Couchbase vector stores write the metadata under, which they do not make configurable
+const VECTOR_METADATA_KEY = 'metadata';
+
+export interface VectorDocumentFields {
+	textKey: string;
+	embeddingKey: string;
+}
+
+export interface AddVectorOptions {
+	ids?: string[];
+	metadata?: Array<Record<string, unknown>>;
+}
+
+/**
+ * Where the stored metadata comes from, matching the `addDocuments` behaviour of each vector store:
+ * - `document`: always the metadata of the document, as the Query vector store does
+ * - `options`: the `metadata` option when given (without a per-document fallback), otherwise the metadata of
+ *   the documents, as the Search vector store does
+ */
+export type VectorMetadataSource = 'document' | 'options';
+
+/**
+ * Embeds the documents and upserts them into the collection with the given upsert options.
+ * The LangChain Couchbase vector stores upsert without options, so this is used instead of `addDocuments`
+ * when a write needs options such as durability. Documents use the same layout as the vector stores:
+ * the text, the embedding, and the metadata under the `VECTOR_METADATA_KEY` field.
+ * @param context
+ * @param collection
+ * @param embeddings
+ * @param documents
+ * @param fields
+ * @param addVectorOptions
+ * @param metadataSource - where the stored metadata comes from, so documents match the vector store's own writes
+ * @param upsertOptions
+ * @returns string[] - the IDs of the upserted documents
+ */
+export async function upsertVectorDocuments(
+	context: IExecuteFunctions | ISupplyDataFunctions,
+	collection: Collection,
+	embeddings: Embeddings,
+	documents: Array<Document<Record<string, unknown>>>,
+	fields: VectorDocumentFields,
+	addVectorOptions: AddVectorOptions | undefined,
+	metadataSource: VectorMetadataSource,
+	upsertOptions: UpsertOptions,
+): Promise<string[]> {
+	if (addVectorOptions?.ids && addVectorOptions.ids.length !== documents.length) {
+		throw new NodeOperationError(
+			context.getNode(),
+			`Got ${addVectorOptions.ids.length} document IDs for ${documents.length} documents.`,
+			{
+				description: 'Please provide one ID per document, or leave the IDs empty to generate them.',
+			},
+		);
+	}
+
+	const vectors = await embeddings.embedDocuments(documents.map(({ pageContent }) => pageContent));
+	const ids = addVectorOptions?.ids ?? documents.map(() => uuid.v4());
+	const documentMetadata = documents.map(({ metadata }) => metadata);
+	const metadata =
+		metadataSource === 'options'
+			? (addVectorOptions?.metadata ?? documentMetadata)
+			: documentMetadata;
+
+	return await Promise.all(
+		documents.map(async (document, index) => {
+			await collection.upsert(
+				ids[index],
+				{
+					[fields.textKey]: document.pageContent,
+					[fields.embeddingKey]: vectors[index],
+					[VECTOR_METADATA_KEY]: metadata[index],
+				},
+				upsertOptions,
+			);
+			return ids[index];
+		}),
+	);
+}
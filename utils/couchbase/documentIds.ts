@@ -0,0 +1,29 @@
+import { randomBytes } from 'crypto';
+
+// Crockford's Base32 alphabet used by ULIDs
+const ULID_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const ULID_TIME_LENGTH = 10;
+const ULID_RANDOM_LENGTH = 16;
+
+/**
+ * Generates a ULID: a 48-bit millisecond timestamp followed by 80 random bits, encoded as 26 characters.
+ * ULIDs sort lexicographically by creation time. IDs generated within the same millisecond are not ordered.
+ * @param time - the timestamp to encode, in milliseconds since the epoch
+ * @returns string - the ULID
+ */
+export function generateUlid(time = Date.now()): string {
+	let encodedTime = '';
+	let remainingTime = time;
+	for (let index = 0; index < ULID_TIME_LENGTH; index++) {
+		encodedTime = ULID_ALPHABET[remainingTime % 32] + encodedTime;
+		remainingTime = Math.floor(remainingTime / 32);
+	}
+
+	// Each random byte provides the 5 bits of one character
+	const encodedRandom = Array.from(
+		randomBytes(ULID_RANDOM_LENGTH),
+		(byte) => ULID_ALPHABET[byte % 32],
+	).join('');
+
+	return encodedTime + encodedRandom;
+}
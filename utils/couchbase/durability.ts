@@ -0,0 +1,152 @@
+import type { INodeProperties } from 'n8n-workflow';
+import {
+	CouchbaseError,
+	DurabilityAmbiguousError,
+	DurabilityImpossibleError,
+	DurabilityLevel,
+	DurabilityLevelNotAvailableError,
+	DurableWriteInProgressError,
+	DurableWriteReCommitInProgressError,
+} from 'couchbase';
+
+export const DURABILITY_LEVELS = {
+	NONE: 'none',
+	MAJORITY: 'majority',
+	MAJORITY_AND_PERSIST_TO_ACTIVE: 'majorityAndPersistToActive',
+	PERSIST_TO_MAJORITY: 'persistToMajority',
+	LEGACY: 'legacy',
+} as const;
+
+const DURABILITY_LEVEL_NONE_VALUE = DURABILITY_LEVELS.NONE;
+
+export interface DurabilityOptions {
+	durabilityLevel?: DurabilityLevel;
+	durabilityPersistTo?: number;
+	durabilityReplicateTo?: number;
+}
+
+/**
+ * Fields to select the durability requirement of a mutation
+ */
+export const durabilityFields: INodeProperties[] = [
+	{
+		displayName: 'Durability Level',
+		name: 'durabilityLevel',
+		type: 'options',
+		options: [
+			{
+				name: 'None',
+				value: DURABILITY_LEVELS.NONE,
+				description: 'The write succeeds as soon as it is in memory on the active node',
+			},
+			{
+				name: 'Majority',
+				value: DURABILITY_LEVELS.MAJORITY,
+				description: 'The write must be replicated to a majority of the nodes in memory',
+			},
+			{
+				name: 'Majority and Persist to Active',
+				value: DURABILITY_LEVELS.MAJORITY_AND_PERSIST_TO_ACTIVE,
+				description:
+					'The write must be replicated to a majority of the nodes and persisted to disk on the active node',
+			},
+			{
+				name: 'Persist to Majority',
+				value: DURABILITY_LEVELS.PERSIST_TO_MAJORITY,
+				description: 'The write must be persisted to disk on a majority of the nodes',
+			},
+			{
+				name: 'Legacy (Persist To / Replicate To)',
+				value: DURABILITY_LEVELS.LEGACY,
+				description:
+					'The client observes the write until it is persisted and replicated to the given number of nodes. Use this for clusters older than Couchbase Server 6.5.',
+			},
+		],
+		default: DURABILITY_LEVEL_NONE_VALUE,
+		description:
+			'The durability the write must reach before the operation is considered successful',
+	},
+	{
+		displayName: 'Persist To',
+		name: 'durabilityPersistTo',
+		type: 'number',
+		typeOptions: {
+			minValue: 0,
+			maxValue: 4,
+		},
+		displayOptions: {
+			show: {
+				durabilityLevel: [DURABILITY_LEVELS.LEGACY],
+			},
+		},
+		default: 0,
+		description:
+			'Number of nodes, including the active node, the write must be persisted to disk on',
+	},
+	{
+		displayName: 'Replicate To',
+		name: 'durabilityReplicateTo',
+		type: 'number',
+		typeOptions: {
+			minValue: 0,
+			maxValue: 3,
+		},
+		displayOptions: {
+			show: {
+				durabilityLevel: [DURABILITY_LEVELS.LEGACY],
+			},
+		},
+		default: 0,
+		description: 'Number of replica nodes the write must be replicated to in memory',
+	},
+];
+
+/**
+ * Converts the durability field values into SDK mutation options
+ * @param durabilityLevel
+ * @param persistTo
+ * @param replicateTo
+ * @returns DurabilityOptions - the options to spread into a mutation, or undefined if there is no durability requirement
+ */
+export function getDurabilityOptions(
+	durabilityLevel: string | undefined,
+	persistTo = 0,
+	replicateTo = 0,
+): DurabilityOptions | undefined {
+	switch (durabilityLevel) {
+		case DURABILITY_LEVELS.MAJORITY:
+			return { durabilityLevel: DurabilityLevel.Majority };
+		case DURABILITY_LEVELS.MAJORITY_AND_PERSIST_TO_ACTIVE:
+			return { durabilityLevel: DurabilityLevel.MajorityAndPersistOnMaster };
+		case DURABILITY_LEVELS.PERSIST_TO_MAJORITY:
+			return { durabilityLevel: DurabilityLevel.PersistToMajority };
+		case DURABILITY_LEVELS.LEGACY:
+			if (persistTo === 0 && replicateTo === 0) {
+				return undefined;
+			}
+			return { durabilityPersistTo: persistTo, durabilityReplicateTo: replicateTo };
+		default:
+			return undefined;
+	}
+}
+
+/**
+ * Returns a user-friendly description for errors caused by a durability requirement
+ * @param error
+ * @returns string - the description, or undefined if the error is not durability related
+ */
+export function makeDurabilityErrorDescription(error: CouchbaseError): string | undefined {
+	switch (true) {
+		case error instanceof DurabilityImpossibleError:
+			return 'The bucket does not have enough replicas or available nodes to meet the requested durability. Lower the durability requirement or add replicas to the bucket.';
+		case error instanceof DurabilityLevelNotAvailableError:
+			return 'The requested durability level is not supported by this cluster. Durability levels require Couchbase Server 6.5 or later; use the legacy Persist To / Replicate To settings on older clusters.';
+		case error instanceof DurabilityAmbiguousError:
+			return 'The write may or may not have reached the requested durability. Read the document to check its current state before retrying.';
+		case error instanceof DurableWriteInProgressError:
+		case error instanceof DurableWriteReCommitInProgressError:
+			return 'Another durable write to this document is still in progress. Retry the operation shortly.';
+		default:
+			return undefined;
+	}
+}